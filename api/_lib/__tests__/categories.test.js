@@ -0,0 +1,114 @@
+/** @jest-environment node */
+const { deleteCategory, updateCategory } = require("../categories");
+const { createDb, request, response } = require("./helpers/db");
+
+const admin = { id: "1", username: "admin", role: "admin" };
+
+const setup = () =>
+  createDb({
+    categories: [
+      { id: "c1", name: "Home", position: 1, archived: false },
+      { id: "c2", name: "Books", position: 2, archived: false },
+    ],
+    products: [
+      {
+        id: "d30b",
+        name: "Desk Lamp",
+        category: "Home",
+        price: 1200,
+        stock: 10,
+        updatedAt: "2026-01-01T00:00:00.000Z",
+        updatedBy: "clerk",
+      },
+      { id: "a7", name: "Atlas", category: "Books", price: 20, stock: 3 },
+    ],
+    trash: [{ id: "t1", name: "Rug", category: "Home", price: 900, stock: 1, deletedAt: "2026-01-02" }],
+  });
+
+const update = async (db, id, body) => {
+  const res = response();
+  await updateCategory(db, request({ method: "PATCH", url: `/categories/${id}`, body }), res, admin, id);
+  return res;
+};
+
+describe("updateCategory", () => {
+  it("renames the category on its products, stamping and auditing each", async () => {
+    const db = setup();
+    const res = await update(db, "c1", { name: "Home & Garden" });
+
+    expect(res.statusCode).toBe(200);
+    expect(db.state.products[0]).toMatchObject({ category: "Home & Garden", updatedBy: "admin" });
+    expect(db.state.products[0].updatedAt).not.toBe("2026-01-01T00:00:00.000Z");
+    expect(db.state.products[1]).toEqual({ id: "a7", name: "Atlas", category: "Books", price: 20, stock: 3 });
+    expect(db.state.auditLog).toEqual([
+      expect.objectContaining({
+        entityId: "d30b",
+        action: "update",
+        changes: { category: { from: "Home", to: "Home & Garden" } },
+        username: "admin",
+      }),
+    ]);
+    expect(db.writes).toBe(1);
+  });
+
+  it("renames the category on trashed products, so restoring them keeps it", async () => {
+    const db = setup();
+    await update(db, "c1", { name: "Home & Garden" });
+
+    expect(db.state.trash[0].category).toBe("Home & Garden");
+  });
+
+  it("leaves products alone when the name does not change", async () => {
+    const db = setup();
+    await update(db, "c1", { name: "Home", position: 3 });
+
+    expect(db.state.products[0].updatedBy).toBe("clerk");
+    expect(db.state.auditLog).toEqual([]);
+  });
+
+  it("answers 400 for an archived flag that is not true or false", async () => {
+    const db = setup();
+    const res = await update(db, "c1", { archived: "false" });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toBe("Archived must be true or false");
+    expect(db.state.categories[0].archived).toBe(false);
+  });
+
+  it("refuses a name another category has, ignoring case", async () => {
+    const db = setup();
+    const res = await update(db, "c1", { name: "books" });
+
+    expect(res.statusCode).toBe(409);
+    expect(db.state.products[0].category).toBe("Home");
+  });
+});
+
+describe("deleteCategory", () => {
+  const remove = (db, id) => {
+    const res = response();
+    deleteCategory(db, request({ method: "DELETE", url: `/categories/${id}` }), res, id);
+    return res;
+  };
+
+  it("deletes a category no product uses", () => {
+    const db = setup();
+    db.state.products = db.state.products.filter((p) => p.category !== "Books");
+
+    expect(remove(db, "c2").statusCode).toBe(200);
+    expect(db.state.categories.map((c) => c.name)).toEqual(["Home"]);
+  });
+
+  it("refuses while products, trashed ones included, are in it", () => {
+    const db = setup();
+    const res = remove(db, "c1");
+
+    expect(res.statusCode).toBe(409);
+    expect(res.body.error).toBe('Category "Home" still has 2 product(s); archive it instead');
+    expect(db.state.categories).toHaveLength(2);
+  });
+
+  it("answers 404 for an unknown category", () => {
+    expect(remove(setup(), "nope").statusCode).toBe(404);
+  });
+});
@@ -0,0 +1,72 @@
+const lodash = require("lodash");
+
+// In-memory stand-in for the json-server router's lowdb: a lodash chain over
+// plain state, with lodash-id's insert (which rejects duplicate ids) and
+// lowdb's write. `db.writes` counts saves.
+const createDb = (state) => {
+  const _ = lodash.runInContext();
+  _.mixin({
+    insert(collection, doc) {
+      if (doc.id !== undefined && collection.some((item) => item.id === doc.id)) {
+        throw new Error("Insert failed, duplicate id");
+      }
+      const ids = collection.map((item) => Number(item.id)).filter(Number.isFinite);
+      const inserted = { ...doc, id: doc.id ?? String(Math.max(0, ...ids) + 1) };
+      collection.push(inserted);
+      return inserted;
+    },
+  });
+  // Like lowdb, write() ends a chain: it saves and returns the value
+  _.prototype.write = function write() {
+    const value = this.value();
+    db.write();
+    return value;
+  };
+  const db = {
+    state: {
+      products: [],
+      users: [],
+      categories: [],
+      orders: [],
+      stockMovements: [],
+      auditLog: [],
+      notifications: [],
+      trash: [],
+      settings: { allowRegistration: true, defaultReorderPoint: 10 },
+      ...state,
+    },
+    writes: 0,
+    get: (key) => _.chain(db.state).get(key),
+    write() {
+      db.writes += 1;
+    },
+  };
+  return db;
+};
+
+// A request with a pre-parsed body, as Vercel passes them
+const request = ({ method = "GET", url = "/", body, headers = {} } = {}) => ({ method, url, body, headers });
+
+// Records the status and JSON body a handler sends
+const response = () => ({
+  statusCode: 200,
+  body: undefined,
+  headers: {},
+  status(code) {
+    this.statusCode = code;
+    return this;
+  },
+  json(body) {
+    this.body = body;
+    return this;
+  },
+  setHeader(name, value) {
+    this.headers[name.toLowerCase()] = value;
+  },
+  end(body) {
+    this.body = body;
+    return this;
+  },
+});
+
+module.exports = { createDb, request, response };
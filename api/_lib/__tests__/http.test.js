@@ -0,0 +1,59 @@
+/** @jest-environment node */
+const { Readable } = require("stream");
+const { isRouterRoute, readBody } = require("../http");
+
+const route = (url) => {
+  const { pathname, searchParams } = new URL(url, "http://localhost");
+  return isRouterRoute(pathname, searchParams);
+};
+
+describe("isRouterRoute", () => {
+  it.each(["/products", "/products/d30b", "/categories?_sort=position", "/stockMovements?productId=1", "/settings"])(
+    "lets %s through",
+    (url) => {
+      expect(route(url)).toBe(true);
+    }
+  );
+
+  it.each([
+    "/db",
+    "/",
+    "/users/1/orders",
+    "/products/d30b/stockMovements",
+    "/products/",
+    "/orders",
+    "/notifications",
+    "/products?_embed=stockMovements",
+    "/stockMovements?_expand=product",
+    "/users/1?_embed=orders",
+  ])("blocks %s", (url) => {
+    expect(route(url)).toBe(false);
+  });
+});
+
+describe("readBody", () => {
+  const streamed = (text) => Object.assign(Readable.from([Buffer.from(text)]), { headers: {} });
+
+  it("uses a body the platform already parsed", async () => {
+    expect(await readBody({ body: { name: "Lamp" } })).toEqual({ name: "Lamp" });
+  });
+
+  it("parses a streamed JSON body and caches it", async () => {
+    const req = streamed('{"name":"Lamp"}');
+    expect(await readBody(req)).toEqual({ name: "Lamp" });
+    expect(await readBody(req)).toEqual({ name: "Lamp" });
+  });
+
+  it("reads invalid JSON as an empty body", async () => {
+    expect(await readBody(streamed("{name"))).toEqual({});
+  });
+
+  it.each([["null"], ["[1, 2]"], ['"text"'], ["42"]])("reads %s as an empty body", async (text) => {
+    expect(await readBody(streamed(text))).toEqual({});
+  });
+
+  it("reads a parsed body that is not an object as empty", async () => {
+    expect(await readBody({ body: ["not", "an", "object"] })).toEqual({});
+    expect(await readBody({ body: "text" })).toEqual({});
+  });
+});
@@ -0,0 +1,113 @@
+/** @jest-environment node */
+const { notifyStockLevel } = require("../notifications");
+const { createProduct, updateProduct } = require("../products");
+const { createDb, request, response } = require("./helpers/db");
+
+const setup = (settings) =>
+  createDb({
+    categories: [
+      { id: "c1", name: "Home", position: 0, archived: false, reorderPoint: 4 },
+      { id: "c2", name: "Books", position: 1, archived: false, reorderPoint: null },
+    ],
+    ...(settings ? { settings } : {}),
+  });
+
+// The reorder point notifyStockLevel used, read back from its message
+const reorderPointUsed = (db, product) => {
+  const notification = notifyStockLevel(db, { id: "p1", name: "Item", ...product }, 1000);
+  return notification && Number(notification.message.match(/reorder point (\d+)/)[1]);
+};
+
+describe("notifyStockLevel reorder points", () => {
+  it("uses the product's own reorder point first, even 0", () => {
+    expect(reorderPointUsed(setup(), { category: "Home", reorderPoint: 7, stock: 7 })).toBe(7);
+    expect(reorderPointUsed(setup(), { category: "Home", reorderPoint: 0, stock: 1 })).toBeNull();
+  });
+
+  it("falls back to the category default, then the store default", () => {
+    expect(reorderPointUsed(setup(), { category: "Home", stock: 4 })).toBe(4);
+    expect(reorderPointUsed(setup(), { category: "Home", stock: 5 })).toBeNull();
+    expect(reorderPointUsed(setup(), { category: "Books", stock: 10 })).toBe(10);
+    expect(reorderPointUsed(setup({ defaultReorderPoint: 3 }), { category: "Garden", stock: 3 })).toBe(3);
+  });
+
+  it("uses 10 when the store has no default", () => {
+    expect(reorderPointUsed(setup({}), { category: "Garden", stock: 10 })).toBe(10);
+  });
+
+  it("lets a variant's reorder point override the product's", () => {
+    const db = setup();
+    const product = {
+      id: "p1",
+      name: "Cap",
+      category: "Home",
+      reorderPoint: 2,
+      stock: 5,
+      attributes: [{ name: "Size", values: ["S"] }],
+      variants: [{ id: "s", sku: "CAP-S", options: { Size: "S" }, price: 9, stock: 5, reorderPoint: 6 }],
+    };
+    const notification = notifyStockLevel(db, product, 8, product.variants[0]);
+
+    expect(notification.message).toBe("Cap (S) has only 5 units left (reorder point 6).");
+  });
+
+  it("only notifies when stock crosses the reorder point", () => {
+    const db = setup();
+    const product = { id: "p1", name: "Lamp", category: "Home", stock: 3 };
+
+    expect(notifyStockLevel(db, product, 4)).toBeNull(); // Already low before
+    expect(notifyStockLevel(db, product, 9).type).toBe("low-stock");
+    expect(notifyStockLevel(db, { ...product, stock: 0 }, 3).type).toBe("out-of-stock");
+  });
+});
+
+describe("opening stock", () => {
+  const admin = { id: "1", username: "admin", role: "admin" };
+  const save = async (handler, db, body, id) => {
+    const res = response();
+    await handler(db, request({ method: id ? "PATCH" : "POST", body }), res, admin, id);
+    return res;
+  };
+  const alerts = (db) => db.state.notifications.map((n) => [n.type, n.message]);
+
+  it("flags a product created at or below its reorder point", async () => {
+    const db = setup();
+    await save(createProduct, db, { name: "Lamp", category: "Home", price: 900, stock: 3 });
+
+    expect(alerts(db)).toEqual([["low-stock", "Lamp has only 3 units left (reorder point 4)."]]);
+  });
+
+  it("flags a product created out of stock", async () => {
+    const db = setup();
+    await save(createProduct, db, { name: "Lamp", category: "Home", price: 900, stock: 0 });
+
+    expect(alerts(db)).toEqual([["out-of-stock", "Lamp is out of stock."]]);
+  });
+
+  it("stays quiet for a product created with enough stock", async () => {
+    const db = setup();
+    await save(createProduct, db, { name: "Lamp", category: "Home", price: 900, stock: 5 });
+
+    expect(db.state.notifications).toEqual([]);
+  });
+
+  it("flags each new variant that starts low, on create and on edit", async () => {
+    const db = setup();
+    const attributes = [{ name: "Size", values: ["S", "M", "L"] }];
+    const variant = (size, stock) => ({ sku: `CAP-${size}`, options: { Size: size }, price: 9, stock });
+    const created = await save(createProduct, db, {
+      name: "Cap",
+      category: "Home",
+      price: 9,
+      attributes,
+      variants: [variant("S", 2), variant("M", 8)],
+    });
+    const saved = created.body.variants.map(({ stock: _stock, ...v }) => v);
+    await save(updateProduct, db, { variants: [...saved, variant("L", 0)] }, created.body.id);
+
+    expect(alerts(db)).toEqual([
+      ["low-stock", "Cap (S) has only 2 units left (reorder point 4)."],
+      ["out-of-stock", "Cap (L) is out of stock."],
+    ]);
+  });
+});
@@ -0,0 +1,200 @@
+/** @jest-environment node */
+const { createOrder, updateOrderStatus } = require("../orders");
+const { createDb, request, response } = require("./helpers/db");
+
+const customer = { id: "3", username: "buyer", role: "user" };
+const admin = { id: "1", username: "admin", role: "admin" };
+
+const shirt = () => ({
+  id: "shirt",
+  name: "Shirt",
+  category: "Clothing",
+  price: 500,
+  stock: 8,
+  attributes: [{ name: "Size", values: ["S", "M"] }],
+  variants: [
+    { id: "s", sku: "SHIRT-S", options: { Size: "S" }, price: 500, stock: 5 },
+    { id: "m", sku: "SHIRT-M", options: { Size: "M" }, price: 550, stock: 3 },
+  ],
+});
+
+const setup = () =>
+  createDb({
+    products: [{ id: "d30b", name: "Desk Lamp", category: "Home", price: 1200, stock: 15 }, shirt()],
+  });
+
+const placeOrder = async (db, items, user = customer) => {
+  const res = response();
+  await createOrder(db, request({ method: "POST", url: "/orders", body: { items } }), res, user);
+  return res;
+};
+
+describe("createOrder", () => {
+  it("decrements stock, records a sale per line and saves once", async () => {
+    const db = setup();
+    const res = await placeOrder(db, [
+      { productId: "d30b", quantity: 2 },
+      { productId: "shirt", variantId: "m", quantity: 1 },
+    ]);
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body).toMatchObject({
+      userId: "3",
+      status: "pending",
+      total: 2950,
+      items: [
+        { productId: "d30b", name: "Desk Lamp", price: 1200, quantity: 2 },
+        { productId: "shirt", variantId: "m", sku: "SHIRT-M", name: "Shirt (M)", price: 550, quantity: 1 },
+      ],
+    });
+    expect(db.get("products").find({ id: "d30b" }).value().stock).toBe(13);
+    const product = db.get("products").find({ id: "shirt" }).value();
+    expect(product.variants[1].stock).toBe(2);
+    expect(product.stock).toBe(7);
+    expect(db.state.stockMovements.map((m) => [m.productId, m.variantId, m.delta, m.reason])).toEqual([
+      ["d30b", undefined, -2, "sale"],
+      ["shirt", "m", -1, "sale"],
+    ]);
+    expect(db.writes).toBe(1);
+  });
+
+  it("checks the combined quantity when a product is on more than one line", async () => {
+    const db = setup();
+    const res = await placeOrder(db, [
+      { productId: "d30b", quantity: 10 },
+      { productId: "d30b", quantity: 10 },
+    ]);
+
+    expect(res.statusCode).toBe(409);
+    expect(res.body.error).toBe('Only 15 of "Desk Lamp" in stock');
+    expect(db.get("products").find({ id: "d30b" }).value().stock).toBe(15);
+    expect(db.state.orders).toEqual([]);
+    expect(db.writes).toBe(0);
+  });
+
+  it("sells repeated lines of the same variant as one line", async () => {
+    const db = setup();
+    const res = await placeOrder(db, [
+      { productId: "shirt", variantId: "s", quantity: 2 },
+      { productId: "shirt", variantId: "m", quantity: 1 },
+      { productId: "shirt", variantId: "s", quantity: 3 },
+    ]);
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.items.map((i) => [i.variantId, i.quantity])).toEqual([
+      ["s", 5],
+      ["m", 1],
+    ]);
+    const product = db.get("products").find({ id: "shirt" }).value();
+    expect(product.variants.map((v) => v.stock)).toEqual([0, 2]);
+  });
+
+  it("rejects the whole order when any line cannot be filled", async () => {
+    const db = setup();
+    const res = await placeOrder(db, [
+      { productId: "d30b", quantity: 1 },
+      { productId: "shirt", variantId: "xl", quantity: 1 },
+      { productId: "gone", quantity: 1 },
+    ]);
+
+    expect(res.statusCode).toBe(409);
+    expect(res.body.problems.map((p) => p.error)).toEqual([
+      'That option of "Shirt" no longer exists',
+      "Product no longer exists",
+    ]);
+    expect(db.get("products").find({ id: "d30b" }).value().stock).toBe(15);
+  });
+
+  it.each([
+    ["no items", undefined],
+    ["items that are not a list", null],
+    ["an empty list", []],
+    ["a missing line", [null]],
+    ["a fractional quantity", [{ productId: "d30b", quantity: 1.5 }]],
+    ["a quantity given as text", [{ productId: "d30b", quantity: "2" }]],
+    ["a missing product id", [{ quantity: 1 }]],
+  ])("answers 400 for %s", async (_label, items) => {
+    const db = setup();
+    const res = await placeOrder(db, items);
+
+    expect(res.statusCode).toBe(400);
+    expect(typeof res.body.error).toBe("string");
+    expect(db.writes).toBe(0);
+  });
+});
+
+describe("updateOrderStatus", () => {
+  it("puts the stock back when an order is cancelled", async () => {
+    const db = setup();
+    const order = (await placeOrder(db, [{ productId: "shirt", variantId: "s", quantity: 4 }])).body;
+    const res = response();
+    await updateOrderStatus(
+      db,
+      request({ method: "PATCH", url: `/orders/${order.id}`, body: { status: "cancelled" } }),
+      res,
+      admin,
+      order.id
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.status).toBe("cancelled");
+    const product = db.get("products").find({ id: "shirt" }).value();
+    expect(product.variants[0].stock).toBe(5);
+    expect(db.state.stockMovements.map((m) => [m.delta, m.reason])).toEqual([
+      [-4, "sale"],
+      [4, "return"],
+    ]);
+  });
+
+  const cancel = async (db, order) => {
+    const res = response();
+    await updateOrderStatus(db, request({ method: "PATCH", body: { status: "cancelled" } }), res, admin, order.id);
+    return res;
+  };
+
+  it("puts the stock back on a product deleted since the sale, in the trash", async () => {
+    const db = setup();
+    const order = (await placeOrder(db, [{ productId: "d30b", quantity: 2 }])).body;
+    const [lamp] = db.state.products.splice(0, 1);
+    db.state.trash.push({ ...lamp, deletedAt: "2026-01-01T00:00:00.000Z" });
+    const res = await cancel(db, order);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.notRestocked).toBeUndefined();
+    expect(db.state.trash[0].stock).toBe(15);
+    expect(db.state.stockMovements.at(-1)).toMatchObject({ productId: "d30b", delta: 2, reason: "return" });
+  });
+
+  it("lists the lines it could not restock, for purged products and removed variants", async () => {
+    const db = setup();
+    const order = (
+      await placeOrder(db, [
+        { productId: "d30b", quantity: 2 },
+        { productId: "shirt", variantId: "m", quantity: 1 },
+        { productId: "shirt", variantId: "s", quantity: 1 },
+      ])
+    ).body;
+    db.state.products.splice(0, 1); // Purged
+    db.state.products[0].variants.splice(1, 1); // Size M dropped
+    const res = await cancel(db, order);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.status).toBe("cancelled");
+    expect(res.body.notRestocked).toEqual([
+      expect.objectContaining({ productId: "d30b", quantity: 2 }),
+      expect.objectContaining({ productId: "shirt", variantId: "m", quantity: 1 }),
+    ]);
+    expect(db.state.products[0].variants[0].stock).toBe(5);
+    expect(db.state.orders[0].notRestocked).toHaveLength(2);
+  });
+
+  it("refuses a change the order's status does not allow", async () => {
+    const db = setup();
+    const order = (await placeOrder(db, [{ productId: "d30b", quantity: 1 }])).body;
+    const res = response();
+    await updateOrderStatus(db, request({ method: "PATCH", body: { status: "delivered" } }), res, admin, order.id);
+
+    expect(res.statusCode).toBe(409);
+    expect(res.body.error).toBe("Cannot change an order from pending to delivered");
+  });
+});
@@ -0,0 +1,44 @@
+/** @jest-environment node */
+const { hasPermission, requiredPermission } = require("../permissions");
+
+describe("requiredPermission", () => {
+  it.each([
+    ["GET", "/products", null],
+    ["GET", "/products/d30b", null],
+    ["GET", "/categories", null],
+    ["GET", "/users", "users:manage"],
+    ["GET", "/users/1", "users:manage"],
+    ["HEAD", "/users", "users:manage"],
+    ["PATCH", "/users/2", "users:manage"],
+    ["GET", "/auditLog", "audit:view"],
+    ["GET", "/trash", "products:delete"],
+    ["POST", "/trash/4/restore", "products:delete"],
+    ["GET", "/stockMovements", "reports:view"],
+    ["PATCH", "/settings", "settings:manage"],
+    ["POST", "/categories", "categories:manage"],
+    ["POST", "/uploads", "products:write"],
+    ["POST", "/orders", "cart:use"],
+    ["PATCH", "/orders/7", "orders:manage"],
+    ["POST", "/products", "products:write"],
+    ["PUT", "/products/d30b", "products:write"],
+    ["DELETE", "/products/d30b", "products:delete"],
+    ["POST", "/products/d30b/stock", "stock:adjust"],
+  ])("%s %s needs %p", (method, pathname, permission) => {
+    expect(requiredPermission(method, pathname)).toBe(permission);
+  });
+});
+
+describe("hasPermission", () => {
+  it("follows the user's role", () => {
+    expect(hasPermission({ role: "admin" }, "users:manage")).toBe(true);
+    expect(hasPermission({ role: "clerk" }, "stock:adjust")).toBe(true);
+    expect(hasPermission({ role: "clerk" }, "users:manage")).toBe(false);
+    expect(hasPermission({ role: "user" }, "cart:use")).toBe(true);
+    expect(hasPermission({ role: "user" }, "reports:view")).toBe(false);
+  });
+
+  it("denies unknown roles and anonymous requests", () => {
+    expect(hasPermission({ role: "owner" }, "cart:use")).toBe(false);
+    expect(hasPermission(null, "cart:use")).toBe(false);
+  });
+});
@@ -0,0 +1,278 @@
+/** @jest-environment node */
+const {
+  createProduct,
+  deleteProduct,
+  listTrash,
+  purgeProduct,
+  restoreProduct,
+  updateProduct,
+} = require("../products");
+const { createDb, request, response } = require("./helpers/db");
+
+const admin = { id: "1", username: "admin", role: "admin" };
+
+const lamp = () => ({ id: "d30b", name: "Desk Lamp", category: "Home", price: 1200, stock: 10, description: "" });
+
+const cap = () => ({
+  id: "cap",
+  name: "Cap",
+  category: "Clothing",
+  price: 9,
+  stock: 9,
+  description: "",
+  attributes: [{ name: "Size", values: ["S", "M"] }],
+  variants: [
+    { id: "s", sku: "CAP-S", options: { Size: "S" }, price: 9, stock: 4 },
+    { id: "m", sku: "CAP-M", options: { Size: "M" }, price: 9, stock: 5 },
+  ],
+});
+
+// Products can only go in categories that exist
+const store = (state = {}) =>
+  createDb({
+    categories: [
+      { id: "c1", name: "Home", position: 1, archived: false },
+      { id: "c2", name: "Clothing", position: 2, archived: false },
+      { id: "c3", name: "Stationery", position: 3, archived: false },
+      { id: "c4", name: "Seasonal", position: 4, archived: true },
+    ],
+    ...state,
+  });
+
+const update = async (db, method, id, body) => {
+  const res = response();
+  await updateProduct(db, request({ method, url: `/products/${id}`, body }), res, admin, id);
+  return res;
+};
+
+const create = async (db, body) => {
+  const res = response();
+  await createProduct(db, request({ method: "POST", url: "/products", body }), res, admin);
+  return res;
+};
+
+const ledger = (db) => db.state.stockMovements.map((m) => [m.variantId, m.delta, m.reason, m.note]);
+
+describe("createProduct", () => {
+  it("records opening stock in the ledger", async () => {
+    const db = store();
+    const res = await create(db, { name: "Desk Lamp", category: "Home", price: 1200, stock: 4, description: "" });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body).toMatchObject({ name: "Desk Lamp", stock: 4, updatedBy: "admin" });
+    expect(ledger(db)).toEqual([[undefined, 4, "restock", "Initial stock"]]);
+  });
+
+  it("ignores a client-supplied id", async () => {
+    const db = store({ products: [lamp()] });
+    const res = await create(db, { id: "d30b", name: "Pen", category: "Stationery", price: 20, stock: 1 });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.id).not.toBe("d30b");
+    expect(db.state.products.map((p) => p.name)).toEqual(["Desk Lamp", "Pen"]);
+  });
+
+  it.each([
+    [{ category: "Home", price: 5 }, "Product name is required"],
+    [{ name: ["Lamp"], category: "Home", price: 5 }, "Product name is required"],
+    [{ name: "Lamp", price: 5 }, "Category is required"],
+    [{ name: "Lamp", category: "Home", price: "5" }, "Price must be a number above 0"],
+    [{ name: "Lamp", category: "Home", price: 5, stock: -1 }, "Stock must be a whole number of 0 or more"],
+    [{ name: "Lamp", category: "Home", price: 5, stock: "3" }, "Stock must be a whole number of 0 or more"],
+    [{ name: "Lamp", category: "Home", price: 5, description: 7 }, "Description must be text"],
+  ])("answers 400 for %p", async (body, error) => {
+    const db = store();
+    const res = await create(db, body);
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toBe(error);
+    expect(db.state.products).toEqual([]);
+  });
+
+  it.each([
+    ["does not exist", "Garden", 'Category "Garden" does not exist'],
+    ["is archived", "Seasonal", 'Category "Seasonal" is archived'],
+  ])("refuses a category that %s", async (_label, category, error) => {
+    const db = store();
+    const res = await create(db, { name: "Rake", category, price: 300, stock: 1 });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toBe(error);
+    expect(db.state.products).toEqual([]);
+  });
+
+  it("refuses a name another product has, ignoring case", async () => {
+    const db = store({ products: [lamp()] });
+    const res = await create(db, { name: "desk lamp", category: "Home", price: 900, stock: 1, description: "" });
+
+    expect(res.statusCode).toBe(409);
+    expect(res.body.error).toBe('A product named "desk lamp" already exists');
+    expect(db.state.products).toHaveLength(1);
+  });
+});
+
+describe("updateProduct", () => {
+  it("refuses a move to an archived or missing category", async () => {
+    const db = store({ products: [lamp()] });
+
+    expect((await update(db, "PATCH", "d30b", { category: "Seasonal" })).body.error).toBe(
+      'Category "Seasonal" is archived'
+    );
+    expect((await update(db, "PATCH", "d30b", { category: "Garden" })).statusCode).toBe(400);
+    expect((await update(db, "PATCH", "d30b", { category: "Stationery" })).statusCode).toBe(200);
+  });
+
+  it("keeps a product in its category after the category is archived", async () => {
+    const db = store({ products: [{ ...lamp(), category: "Seasonal" }] });
+
+    expect((await update(db, "PATCH", "d30b", { price: 1100 })).statusCode).toBe(200);
+  });
+
+  it("refuses a rename onto another product's name but keeps its own", async () => {
+    const db = store({ products: [lamp(), { ...lamp(), id: "f1", name: "Floor Lamp" }] });
+
+    expect((await update(db, "PATCH", "f1", { name: "DESK LAMP" })).statusCode).toBe(409);
+    expect((await update(db, "PATCH", "d30b", { name: "Desk lamp" })).statusCode).toBe(200);
+  });
+
+  it.each(["PATCH", "PUT"])("keeps saved stock when a %s carries a stale count", async (method) => {
+    const db = store({ products: [lamp()] });
+    const stale = lamp();
+    db.get("products").find({ id: "d30b" }).value().stock = 5; // Sold while the form was open
+
+    const res = await update(db, method, "d30b", { ...stale, description: "Brighter" });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({ stock: 5, description: "Brighter" });
+    expect(db.state.stockMovements).toEqual([]);
+  });
+
+  it("keeps saved variants' stock and takes opening stock for new ones", async () => {
+    const db = store({ products: [cap()] });
+    const attributes = [{ name: "Size", values: ["S", "M", "L"] }];
+    const variants = [
+      { ...cap().variants[0], stock: 40 },
+      { ...cap().variants[1], stock: 0 },
+      { id: "", sku: "CAP-L", options: { Size: "L" }, price: 11, stock: 3 },
+    ];
+
+    const res = await update(db, "PATCH", "cap", { attributes, variants });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.variants.map((v) => [v.sku, v.stock])).toEqual([
+      ["CAP-S", 4],
+      ["CAP-M", 5],
+      ["CAP-L", 3],
+    ]);
+    expect(res.body.stock).toBe(12);
+    const added = res.body.variants[2].id;
+    expect(ledger(db)).toEqual([[added, 3, "restock", "Initial stock"]]);
+  });
+
+  it("accepts saved variants without a stock count", async () => {
+    const db = store({ products: [cap()] });
+    const variants = cap().variants.map(({ stock: _stock, ...variant }) => ({ ...variant, price: 10 }));
+
+    const res = await update(db, "PATCH", "cap", { variants });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({ price: 10, stock: 9 });
+  });
+
+  it("records the stock of a removed variant as a correction", async () => {
+    const db = store({ products: [cap()] });
+    const res = await update(db, "PATCH", "cap", {
+      attributes: [{ name: "Size", values: ["S"] }],
+      variants: [cap().variants[0]],
+    });
+
+    expect(res.body.stock).toBe(4);
+    expect(ledger(db)).toEqual([["m", -5, "correction", "Edited on product"]]);
+  });
+
+  it("clears the reorder point override when sent null", async () => {
+    const db = store({ products: [{ ...lamp(), reorderPoint: 3 }] });
+    const res = await update(db, "PATCH", "d30b", { reorderPoint: null });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).not.toHaveProperty("reorderPoint");
+  });
+
+  it("audits the change", async () => {
+    const db = store({ products: [lamp()] });
+    await update(db, "PATCH", "d30b", { price: 1500, stock: 99 });
+
+    expect(db.state.auditLog).toMatchObject([
+      { entityId: "d30b", action: "update", changes: { price: { from: 1200, to: 1500 } }, username: "admin" },
+    ]);
+  });
+});
+
+describe("trash", () => {
+  const trashCall = (handler, db, id) => {
+    const res = response();
+    handler(db, request({ method: "POST", url: `/trash/${id}` }), res, admin, id);
+    return res;
+  };
+
+  it("moves a deleted product to the trash, out of the product list", () => {
+    const db = createDb({ products: [lamp(), cap()] });
+    const res = trashCall(deleteProduct, db, "d30b");
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({ id: "d30b", deletedBy: "admin", deletedAt: expect.any(String) });
+    expect(db.state.products.map((p) => p.id)).toEqual(["cap"]);
+    expect(db.state.trash.map((p) => p.id)).toEqual(["d30b"]);
+    expect(db.state.auditLog.map((e) => [e.action, e.entityId])).toEqual([["delete", "d30b"]]);
+  });
+
+  it("lists the most recently deleted first", () => {
+    const db = createDb({
+      trash: [
+        { ...lamp(), deletedAt: "2026-01-01T00:00:00.000Z" },
+        { ...cap(), deletedAt: "2026-02-01T00:00:00.000Z" },
+      ],
+    });
+    const res = response();
+    listTrash(db, request({ url: "/trash" }), res);
+
+    expect(res.body.map((p) => p.id)).toEqual(["cap", "d30b"]);
+  });
+
+  it("restores a product with its id and stock, without the deletion stamps", () => {
+    const db = createDb({ trash: [{ ...lamp(), deletedAt: "2026-01-01T00:00:00.000Z", deletedBy: "clerk" }] });
+    const res = trashCall(restoreProduct, db, "d30b");
+
+    expect(res.statusCode).toBe(200);
+    expect(db.state.trash).toEqual([]);
+    expect(db.state.products).toEqual([{ ...lamp(), updatedAt: expect.any(String), updatedBy: "admin" }]);
+    expect(db.state.auditLog.map((e) => e.action)).toEqual(["restore"]);
+  });
+
+  it("refuses to restore onto a name taken since the delete", () => {
+    const db = createDb({ products: [{ ...lamp(), id: "new" }], trash: [{ ...lamp(), deletedAt: "2026-01-01" }] });
+    const res = trashCall(restoreProduct, db, "d30b");
+
+    expect(res.statusCode).toBe(409);
+    expect(res.body.error).toBe('A product named "Desk Lamp" already exists');
+    expect(db.state.trash).toHaveLength(1);
+  });
+
+  it("purges a product for good, keeping the audit trail", () => {
+    const db = createDb({ trash: [{ ...lamp(), deletedAt: "2026-01-01" }] });
+    const res = trashCall(purgeProduct, db, "d30b");
+
+    expect(res.statusCode).toBe(200);
+    expect(db.state.trash).toEqual([]);
+    expect(db.state.products).toEqual([]);
+    expect(db.state.auditLog.map((e) => e.action)).toEqual(["purge"]);
+  });
+
+  it("answers 404 for products that are not there", () => {
+    const db = createDb({ products: [lamp()] });
+
+    expect(trashCall(deleteProduct, db, "nope").statusCode).toBe(404);
+    expect(trashCall(restoreProduct, db, "d30b").statusCode).toBe(404); // Not in the trash
+    expect(trashCall(purgeProduct, db, "d30b").statusCode).toBe(404);
+  });
+});
@@ -0,0 +1,85 @@
+/** @jest-environment node */
+const { listCollection, queryItems } = require("../query");
+const { createDb, request, response } = require("./helpers/db");
+
+const products = [
+  { id: "1", name: "Desk Lamp", sku: "LAMP-1", category: "Home", price: 1200 },
+  { id: "2", name: "Floor lamp", category: "Home", price: 3000 },
+  { id: "3", name: "Notebook", sku: "NB-LAMPLIGHT", category: "Stationery", price: 90 },
+  { id: "4", name: "Pen", category: "Stationery", price: 20 },
+  { id: "5", name: "Tent", category: "Outdoor" },
+];
+
+const query = (string, searchFields = ["name", "sku"]) =>
+  queryItems(products, new URLSearchParams(string), searchFields);
+const ids = (items) => items.map((item) => item.id);
+
+describe("queryItems", () => {
+  it("returns every item as a list without parameters", () => {
+    expect(query("")).toBe(products);
+  });
+
+  it("searches the search fields ignoring case", () => {
+    expect(ids(query("q=LAMP"))).toEqual(["1", "2", "3"]);
+    expect(ids(query("q=lamp", ["name"]))).toEqual(["1", "2"]);
+    expect(ids(query("q=lamp", []))).toEqual(["1", "2", "3", "4", "5"]);
+  });
+
+  it("matches fields exactly, and any of a repeated field", () => {
+    expect(ids(query("category=Stationery"))).toEqual(["3", "4"]);
+    expect(ids(query("q=lamp&category=Home"))).toEqual(["1", "2"]);
+    expect(ids(query("id=4&id=1&id=9"))).toEqual(["1", "4"]);
+    expect(ids(query("category=home"))).toEqual([]);
+  });
+
+  it("sorts ascending, descending and by several fields, with missing values last", () => {
+    expect(ids(query("_sort=price"))).toEqual(["4", "3", "1", "2", "5"]);
+    expect(ids(query("_sort=-price"))).toEqual(["2", "1", "3", "4", "5"]);
+    expect(ids(query("_sort=name"))).toEqual(["1", "2", "3", "4", "5"]);
+    expect(ids(query("_sort=category,-price"))).toEqual(["2", "1", "5", "3", "4"]);
+  });
+
+  it("pages the results with the total count", () => {
+    expect(query("category=Home&_sort=-price&_page=1&_per_page=1")).toEqual({
+      first: 1,
+      prev: null,
+      next: 2,
+      last: 2,
+      pages: 2,
+      items: 2,
+      data: [products[1]],
+    });
+    expect(query("_page=3&_per_page=2")).toMatchObject({ prev: 2, next: null, pages: 3, items: 5, data: [products[4]] });
+  });
+
+  it("falls back to the first page of 10 for bad paging values", () => {
+    expect(query("_page=0&_per_page=-1")).toMatchObject({ first: 1, pages: 1, items: 5, data: products });
+  });
+
+  it("answers an empty page when nothing matches", () => {
+    expect(query("q=zzz&_page=1")).toEqual({ first: 1, prev: null, next: null, last: 1, pages: 0, items: 0, data: [] });
+  });
+
+  it("ignores other underscore parameters", () => {
+    expect(ids(query("_embed=orders&_limit=1"))).toEqual(["1", "2", "3", "4", "5"]);
+  });
+});
+
+describe("listCollection", () => {
+  it("searches products by name and SKU", () => {
+    const db = createDb({ products });
+    const res = response();
+    listCollection(db, request({ url: "/products?q=nb-&_page=1&_per_page=9" }), res, "products");
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({ items: 1, data: [{ id: "3" }] });
+  });
+
+  it("does not search collections without search fields", () => {
+    const db = createDb({ stockMovements: [{ id: "1", productId: "1", createdAt: "2026-01-01" }] });
+    const res = response();
+    listCollection(db, request({ url: "/stockMovements?q=zzz&productId=1" }), res, "stockMovements");
+
+    expect(res.body).toHaveLength(1);
+  });
+});
@@ -0,0 +1,127 @@
+/** @jest-environment node */
+const { hashPassword, signToken } = require("../auth");
+const { authorize, login, refresh, register } = require("../sessions");
+const { createDb, request, response } = require("./helpers/db");
+
+const PASSWORD = "secret123";
+
+// Hashing is slow on purpose, so the accounts are hashed once
+const accounts = (() => {
+  const passwordHash = hashPassword(PASSWORD);
+  return [
+    { id: "1", username: "admin", role: "admin", active: true, passwordHash },
+    { id: "2", username: "clerk", role: "clerk", active: true, passwordHash },
+    { id: "3", username: "gone", role: "admin", active: false, passwordHash },
+  ];
+})();
+
+const setup = (settings) => createDb({ users: accounts.map((u) => ({ ...u })), ...(settings ? { settings } : {}) });
+
+const bearer = (user) => ({ authorization: `Bearer ${signToken(user)}` });
+
+const call = async (handler, db, reqOptions) => {
+  const res = response();
+  await handler(db, request({ method: "POST", ...reqOptions }), res);
+  return res;
+};
+
+describe("login", () => {
+  it("issues a token without the password hash", async () => {
+    const res = await call(login, setup(), { body: { username: "admin", password: PASSWORD } });
+
+    expect(res.statusCode).toBe(200);
+    expect(typeof res.body.token).toBe("string");
+    expect(res.body.user).toEqual({ id: "1", username: "admin", role: "admin", active: true });
+  });
+
+  it("refuses a wrong password and a deactivated account", async () => {
+    const db = setup();
+    expect((await call(login, db, { body: { username: "admin", password: "wrong123" } })).statusCode).toBe(401);
+    expect((await call(login, db, { body: { username: "nobody", password: PASSWORD } })).statusCode).toBe(401);
+    expect((await call(login, db, { body: { username: "gone", password: PASSWORD } })).statusCode).toBe(403);
+  });
+
+  it.each([
+    ["an empty body", {}],
+    ["a password that is not text", { username: "admin", password: 12345678 }],
+    ["a password object", { username: "admin", password: { length: 8 } }],
+    ["a username object", { username: { $ne: "" }, password: PASSWORD }],
+  ])("answers 400 for %s", async (_label, body) => {
+    const res = await call(login, setup(), { body });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toBe("Username and password are required");
+  });
+});
+
+describe("register", () => {
+  it("creates a customer account and signs it in", async () => {
+    const db = setup();
+    const res = await call(register, db, { body: { username: "shopper", password: "hunter22" } });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.user).toMatchObject({ username: "shopper", role: "user", active: true });
+    expect(db.state.users[3].passwordHash).toMatch(/^scrypt\$/);
+  });
+
+  it("refuses taken names, weak passwords and closed registration", async () => {
+    expect((await call(register, setup(), { body: { username: "ADMIN", password: "hunter22" } })).statusCode).toBe(
+      409
+    );
+    expect((await call(register, setup(), { body: { username: "shopper", password: 12345678 } })).statusCode).toBe(
+      400
+    );
+    const closed = setup({ allowRegistration: false });
+    expect((await call(register, closed, { body: { username: "shopper", password: "hunter22" } })).statusCode).toBe(
+      403
+    );
+  });
+});
+
+describe("refresh", () => {
+  it("issues a fresh token for an active user", async () => {
+    const db = setup();
+    const res = await call(refresh, db, { headers: bearer(db.state.users[1]) });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.user.username).toBe("clerk");
+  });
+
+  it("refuses deactivated users and bad tokens", async () => {
+    const db = setup();
+    expect((await call(refresh, db, { headers: bearer(db.state.users[2]) })).statusCode).toBe(401);
+    expect((await call(refresh, db, { headers: { authorization: "Bearer nonsense" } })).statusCode).toBe(401);
+  });
+});
+
+describe("authorize", () => {
+  const check = (db, method, pathname, headers = {}) => {
+    const res = response();
+    const allowed = authorize(db, request({ method, url: pathname, headers }), res, pathname);
+    return { allowed, status: allowed ? null : res.statusCode };
+  };
+
+  it("lets open routes through without a session", () => {
+    expect(check(setup(), "GET", "/products")).toEqual({ allowed: true, status: null });
+  });
+
+  it("asks for a session on guarded routes", () => {
+    expect(check(setup(), "GET", "/users")).toEqual({ allowed: false, status: 401 });
+    expect(check(setup(), "POST", "/products")).toEqual({ allowed: false, status: 401 });
+  });
+
+  it("checks the role stored for the user, not the one in the token", () => {
+    const db = setup();
+    const clerk = db.state.users[1];
+    const headers = bearer({ ...clerk, role: "admin" }); // Claims admin, but is a clerk
+
+    expect(check(db, "POST", "/products/1/stock", headers)).toEqual({ allowed: true, status: null });
+    expect(check(db, "GET", "/users", headers)).toEqual({ allowed: false, status: 403 });
+    expect(check(db, "GET", "/users", bearer(db.state.users[0]))).toEqual({ allowed: true, status: null });
+  });
+
+  it("treats a deactivated user as logged out", () => {
+    const db = setup();
+    expect(check(db, "GET", "/auditLog", bearer(db.state.users[2]))).toEqual({ allowed: false, status: 401 });
+  });
+});
@@ -0,0 +1,38 @@
+/** @jest-environment node */
+const { updateSettings } = require("../settings");
+const { createDb, request, response } = require("./helpers/db");
+
+const patch = async (db, body) => {
+  const res = response();
+  await updateSettings(db, request({ method: "PATCH", url: "/settings", body }), res);
+  return res;
+};
+
+describe("updateSettings", () => {
+  it("merges valid settings", async () => {
+    const db = createDb();
+    const res = await patch(db, { defaultReorderPoint: 0, allowRegistration: false });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({ allowRegistration: false, defaultReorderPoint: 0 });
+    expect(db.state.settings).toEqual(res.body);
+    expect(db.writes).toBe(1);
+  });
+
+  it.each([
+    [{ defaultReorderPoint: -1 }, "Default reorder point must be a whole number of 0 or more"],
+    [{ defaultReorderPoint: 2.5 }, "Default reorder point must be a whole number of 0 or more"],
+    [{ defaultReorderPoint: "5" }, "Default reorder point must be a whole number of 0 or more"],
+    [{ allowRegistration: "yes" }, "Allow registration must be true or false"],
+    [{ theme: "dark" }, 'Unknown setting "theme"'],
+    [JSON.parse('{"__proto__": {"polluted": true}}'), 'Unknown setting "__proto__"'],
+    [{}, "No settings to change"],
+  ])("refuses %p", async (body, error) => {
+    const db = createDb();
+    const res = await patch(db, body);
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toBe(error);
+    expect(db.state.settings).toEqual({ allowRegistration: true, defaultReorderPoint: 10 });
+    expect(db.writes).toBe(0);
+  });
+});
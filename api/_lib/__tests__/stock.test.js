@@ -0,0 +1,136 @@
+/** @jest-environment node */
+const { REASONS, adjustStock, recordMovement } = require("../stock");
+const { createDb, request, response } = require("./helpers/db");
+
+const clerk = { id: "2", username: "clerk", role: "clerk" };
+
+const lamp = () => ({ id: "d30b", name: "Desk Lamp", category: "Home", price: 1200, stock: 15 });
+const shirt = () => ({
+  id: "shirt",
+  name: "Shirt",
+  category: "Clothing",
+  price: 500,
+  stock: 8,
+  attributes: [{ name: "Size", values: ["S", "M"] }],
+  variants: [
+    { id: "s", sku: "SHIRT-S", options: { Size: "S" }, price: 500, stock: 5 },
+    { id: "m", sku: "SHIRT-M", options: { Size: "M" }, price: 550, stock: 3 },
+  ],
+});
+
+const setup = () => createDb({ products: [lamp(), shirt()] });
+
+const adjust = async (db, id, body) => {
+  const res = response();
+  await adjustStock(db, request({ method: "POST", url: `/products/${id}/stock`, body }), res, clerk, id);
+  return res;
+};
+
+describe("adjustStock", () => {
+  it("applies the change and records it in the ledger", async () => {
+    const db = setup();
+    const res = await adjust(db, "d30b", { delta: -4, reason: "damage", note: "Dropped" });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.product).toMatchObject({ stock: 11, updatedBy: "clerk" });
+    expect(db.state.stockMovements).toEqual([
+      expect.objectContaining({
+        productId: "d30b",
+        productName: "Desk Lamp",
+        delta: -4,
+        stockAfter: 11,
+        reason: "damage",
+        note: "Dropped",
+        userId: "2",
+        username: "clerk",
+      }),
+    ]);
+    expect(db.writes).toBe(1);
+  });
+
+  it("adjusts one variant and totals the product's stock from the variants", async () => {
+    const db = setup();
+    const res = await adjust(db, "shirt", { delta: 2, reason: "restock", variantId: "m" });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body.product.stock).toBe(10);
+    expect(res.body.product.variants[1].stock).toBe(5);
+    expect(res.body.movement).toMatchObject({ variantId: "m", variantName: "M", delta: 2, stockAfter: 5 });
+  });
+
+  it("refuses to take stock below zero", async () => {
+    const db = setup();
+    const res = await adjust(db, "d30b", { delta: -16, reason: "sale" });
+
+    expect(res.statusCode).toBe(409);
+    expect(res.body.error).toBe('Only 15 of "Desk Lamp" in stock');
+    expect(db.state.products[0].stock).toBe(15);
+    expect(db.state.stockMovements).toEqual([]);
+  });
+
+  it("refuses to take a variant's stock below zero", async () => {
+    const db = setup();
+    const res = await adjust(db, "shirt", { delta: -4, reason: "sale", variantId: "m" });
+
+    expect(res.statusCode).toBe(409);
+    expect(res.body.error).toBe('Only 3 of "Shirt (M)" in stock');
+    expect(db.state.products[1].variants[1].stock).toBe(3);
+    expect(db.state.stockMovements).toEqual([]);
+  });
+
+  const wholeNumber = "Adjustment must be a whole, non-zero number";
+  it.each([
+    ["a fractional change", "d30b", { delta: 1.5, reason: "restock" }, wholeNumber],
+    ["no change", "d30b", { delta: 0, reason: "restock" }, wholeNumber],
+    ["a change given as text", "d30b", { delta: "3", reason: "restock" }, wholeNumber],
+    ["an unknown reason", "d30b", { delta: 1, reason: "theft" }, `Reason must be one of: ${REASONS.join(", ")}`],
+    ["a variant of a plain product", "d30b", { delta: 1, reason: "restock", variantId: "s" }, "This product has no variants"],
+    ["a missing variant", "shirt", { delta: 1, reason: "restock" }, "Choose which variant to adjust"],
+    ["an unknown variant", "shirt", { delta: 1, reason: "restock", variantId: "xl" }, "Choose which variant to adjust"],
+  ])("answers 400 for %s", async (_label, id, body, error) => {
+    const db = setup();
+    const res = await adjust(db, id, body);
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toBe(error);
+    expect(db.writes).toBe(0);
+  });
+
+  it("answers 404 for an unknown product", async () => {
+    expect((await adjust(setup(), "nope", { delta: 1, reason: "restock" })).statusCode).toBe(404);
+  });
+});
+
+describe("recordMovement", () => {
+  it("notifies once when stock falls to the reorder point, not on every change below it", () => {
+    const db = setup();
+    const product = db.state.products[0];
+    const sell = (delta) => {
+      product.stock += delta;
+      recordMovement(db, { product, delta, reason: "sale", user: clerk });
+    };
+
+    sell(-5); // 15 -> 10, the store default
+    sell(-2); // 10 -> 8, already low
+
+    expect(db.state.notifications.map((n) => n.type)).toEqual(["low-stock"]);
+    expect(db.state.notifications[0].message).toBe("Desk Lamp has only 10 units left (reorder point 10).");
+  });
+
+  it("notifies when stock runs out", () => {
+    const db = setup();
+    const product = db.state.products[0];
+    product.stock = 0;
+    recordMovement(db, { product, delta: -15, reason: "sale", user: null });
+
+    expect(db.state.notifications.map((n) => n.type)).toEqual(["out-of-stock"]);
+    expect(db.state.stockMovements[0]).toMatchObject({ stockAfter: 0, userId: null, username: null, note: "" });
+  });
+
+  it("does not write, leaving that to the caller", () => {
+    const db = setup();
+    recordMovement(db, { product: db.state.products[0], delta: 1, reason: "restock", user: clerk });
+
+    expect(db.writes).toBe(0);
+  });
+});
@@ -0,0 +1,48 @@
+/** @jest-environment node */
+const { updateUser } = require("../users");
+const { createDb, request, response } = require("./helpers/db");
+
+const setup = () =>
+  createDb({
+    users: [
+      { id: "1", username: "admin", role: "admin", active: true, passwordHash: "x" },
+      { id: "2", username: "clerk", role: "clerk", active: true, passwordHash: "x" },
+    ],
+  });
+
+const update = async (db, id, body) => {
+  const res = response();
+  await updateUser(db, request({ method: "PATCH", url: `/users/${id}`, body }), res, id);
+  return res;
+};
+
+describe("updateUser", () => {
+  it("deactivates and reactivates a user", async () => {
+    const db = setup();
+
+    expect((await update(db, "2", { active: false })).body).toEqual({
+      id: "2",
+      username: "clerk",
+      role: "clerk",
+      active: false,
+    });
+    expect((await update(db, "2", { active: true })).body.active).toBe(true);
+  });
+
+  it.each([["false"], ["no"], [0], [""], [null]])("answers 400 for active set to %p", async (active) => {
+    const db = setup();
+    const res = await update(db, "2", { active });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body.error).toBe("Active must be true or false");
+    expect(db.state.users[1].active).toBe(true);
+  });
+
+  it("keeps the last active admin", async () => {
+    const db = setup();
+    const res = await update(db, "1", { active: false });
+
+    expect(res.statusCode).toBe(409);
+    expect(db.state.users[0].active).toBe(true);
+  });
+});
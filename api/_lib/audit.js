@@ -0,0 +1,43 @@
+// Stamps kept on the record itself; they would show up in every diff
+const IGNORED_FIELDS = ["createdAt", "updatedAt", "updatedBy", "deletedAt", "deletedBy"];
+
+// Who changed a record and when, stamped on the record itself
+const stamp = (user) => ({
+  updatedAt: new Date().toISOString(),
+  updatedBy: user ? user.username : null,
+});
+
+// Field-by-field before/after for every key that differs
+const diff = (before, after) => {
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes = {};
+  keys.forEach((key) => {
+    if (IGNORED_FIELDS.includes(key)) return;
+    const from = before ? before[key] : undefined;
+    const to = after ? after[key] : undefined;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { from: from === undefined ? null : from, to: to === undefined ? null : to };
+    }
+  });
+  return changes;
+};
+
+// Adds an audit entry. Does not write; the caller saves it with its changes.
+const recordAudit = (db, { action, before, after, user }) => {
+  const subject = after || before;
+  return db
+    .get("auditLog")
+    .insert({
+      entity: "product",
+      entityId: subject.id,
+      entityName: subject.name,
+      action,
+      changes: diff(before, after),
+      userId: user ? user.id : null,
+      username: user ? user.username : null,
+      createdAt: new Date().toISOString(),
+    })
+    .value();
+};
+
+module.exports = { stamp, recordAudit };
@@ -0,0 +1,99 @@
+const crypto = require("crypto");
+
+const SESSION_TTL_SECONDS = 60 * 60;
+// A session can be refreshed for this long after the original login
+const MAX_SESSION_SECONDS = 7 * 24 * 60 * 60;
+
+// Tokens signed with the fallback secret are forgeable, so it is only
+// accepted outside production.
+const getSecret = () => {
+  if (process.env.AUTH_SECRET) return process.env.AUTH_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("AUTH_SECRET must be set in production");
+  }
+  return "react-store-dev-secret";
+};
+
+const base64url = (value) => Buffer.from(value).toString("base64url");
+
+// Passwords are stored as "scrypt$<salt>$<hash>" (hex encoded)
+const hashPassword = (password) => {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const hash = crypto.scryptSync(password, salt, 64).toString("hex");
+  return `scrypt$${salt}$${hash}`;
+};
+
+const verifyPassword = (password, stored) => {
+  if (typeof password !== "string") return false;
+  const [scheme, salt, hash] = (stored || "").split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+};
+
+// HS256 JWT, so the client can read the claims without a library.
+// authTime is carried over on refresh so sessions cannot be extended forever.
+const signToken = (user, authTime) => {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64url(
+    JSON.stringify({
+      sub: user.id,
+      username: user.username,
+      role: user.role,
+      auth_time: authTime || now,
+      iat: now,
+      exp: now + SESSION_TTL_SECONDS,
+    })
+  );
+  const signature = crypto
+    .createHmac("sha256", getSecret())
+    .update(`${header}.${payload}`)
+    .digest("base64url");
+  return `${header}.${payload}.${signature}`;
+};
+
+// Returns the token claims, or null if the signature is bad or it has expired
+const verifyToken = (token) => {
+  const [header, payload, signature] = (token || "").split(".");
+  if (!header || !payload || !signature) return null;
+  const expected = crypto
+    .createHmac("sha256", getSecret())
+    .update(`${header}.${payload}`)
+    .digest("base64url");
+  if (
+    signature.length !== expected.length ||
+    !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  ) {
+    return null;
+  }
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    if (claims.exp * 1000 <= Date.now()) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+};
+
+const canRefresh = (claims) =>
+  Boolean(claims) && claims.auth_time + MAX_SESSION_SECONDS > Date.now() / 1000;
+
+const readBearerToken = (req) => {
+  const header = req.headers.authorization || "";
+  return header.startsWith("Bearer ") ? header.slice("Bearer ".length) : null;
+};
+
+// Strips credentials before a user record leaves the server
+const toPublicUser = ({ passwordHash: _passwordHash, ...user }) => user;
+
+module.exports = {
+  hashPassword,
+  verifyPassword,
+  signToken,
+  verifyToken,
+  canRefresh,
+  readBearerToken,
+  toPublicUser,
+};
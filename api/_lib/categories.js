@@ -0,0 +1,109 @@
+const { recordAudit, stamp } = require("./audit");
+const { readBody } = require("./http");
+const { isValidReorderPoint } = require("./validation");
+
+const findByName = (db, name, exceptId) =>
+  db
+    .get("categories")
+    .find((c) => c.name.toLowerCase() === name.toLowerCase() && c.id !== exceptId)
+    .value();
+
+const createCategory = async (db, req, res) => {
+  const { name } = await readBody(req);
+  const trimmed = typeof name === "string" ? name.trim() : "";
+  if (!trimmed) {
+    return res.status(400).json({ error: "Category name is required" });
+  }
+  if (findByName(db, trimmed)) {
+    return res.status(409).json({ error: `Category "${trimmed}" already exists` });
+  }
+
+  const position = db.get("categories").map("position").max().value() || 0;
+  const category = db
+    .get("categories")
+    .insert({ name: trimmed, position: position + 1, archived: false })
+    .write();
+  res.status(201).json(category);
+};
+
+// Renames cascade to every product in the category, trashed ones included, so
+// filters keep matching and restores bring back a category that exists. Each
+// renamed product is stamped and audited like any other edit.
+const updateCategory = async (db, req, res, user, id) => {
+  const category = db.get("categories").find({ id }).value();
+  if (!category) {
+    return res.status(404).json({ error: "Category not found" });
+  }
+
+  const { name, position, archived, reorderPoint } = await readBody(req);
+  const changes = {};
+  if (name !== undefined) {
+    const trimmed = typeof name === "string" ? name.trim() : "";
+    if (!trimmed) {
+      return res.status(400).json({ error: "Category name is required" });
+    }
+    if (findByName(db, trimmed, id)) {
+      return res.status(409).json({ error: `Category "${trimmed}" already exists` });
+    }
+    changes.name = trimmed;
+  }
+  if (position !== undefined) {
+    if (!Number.isInteger(position)) {
+      return res.status(400).json({ error: "Position must be a whole number" });
+    }
+    changes.position = position;
+  }
+  if (archived !== undefined) {
+    if (typeof archived !== "boolean") {
+      return res.status(400).json({ error: "Archived must be true or false" });
+    }
+    changes.archived = archived;
+  }
+  if (reorderPoint !== undefined) {
+    if (reorderPoint !== null && !isValidReorderPoint(reorderPoint)) {
+      return res.status(400).json({ error: "Reorder point must be a whole number of 0 or more" });
+    }
+    changes.reorderPoint = reorderPoint;
+  }
+
+  if (changes.name && changes.name !== category.name) {
+    db.get("products")
+      .filter({ category: category.name })
+      .each((product) => {
+        const before = { ...product };
+        Object.assign(product, { category: changes.name }, stamp(user));
+        recordAudit(db, { action: "update", before, after: product, user });
+      })
+      .value();
+    db.get("trash")
+      .filter({ category: category.name })
+      .each((product) => {
+        product.category = changes.name;
+      })
+      .value();
+  }
+  const updated = db.get("categories").find({ id }).assign(changes).write();
+  res.status(200).json(updated);
+};
+
+// Only empty categories can be deleted; products, trashed ones included, would
+// be left pointing at a category that no longer exists. Archive those instead.
+const deleteCategory = (db, req, res, id) => {
+  const category = db.get("categories").find({ id }).value();
+  if (!category) {
+    return res.status(404).json({ error: "Category not found" });
+  }
+  const count = ["products", "trash"]
+    .map((collection) => db.get(collection).filter({ category: category.name }).size().value())
+    .reduce((acc, n) => acc + n, 0);
+  if (count > 0) {
+    return res.status(409).json({
+      error: `Category "${category.name}" still has ${count} product(s); archive it instead`,
+    });
+  }
+
+  db.get("categories").remove({ id }).write();
+  res.status(200).json({});
+};
+
+module.exports = { createCategory, updateCategory, deleteCategory };
@@ -0,0 +1,39 @@
+const isPlainObject = (value) => value !== null && typeof value === "object" && !Array.isArray(value);
+
+// Vercel pre-parses JSON bodies; fall back to reading the stream elsewhere.
+// The parsed body is cached on the request so it can be read more than once.
+// Anything but a JSON object reads as an empty body, so handlers can always
+// destructure it and check the fields they need.
+const readBody = async (req) => {
+  if (req.body === undefined || req.body === null) {
+    const chunks = [];
+    for await (const chunk of req) chunks.push(chunk);
+    try {
+      req.body = JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}");
+    } catch {
+      req.body = {};
+    }
+    req._body = true; // Tells body-parser (used by the json-server router) to skip it
+  }
+  if (!isPlainObject(req.body)) req.body = {};
+  return req.body;
+};
+
+// Collections the json-server router may still serve, as a list or one record.
+// Its other routes would hand out data past the checks in api/index.js: /db
+// dumps every collection, password hashes included, and nested routes
+// (/users/1/orders) and _embed/_expand pull in related collections.
+const ROUTER_COLLECTIONS = ["products", "categories", "settings", "stockMovements", "auditLog", "users"];
+
+const isRouterRoute = (pathname, searchParams) => {
+  const [, collection, ...rest] = pathname.split("/");
+  return (
+    ROUTER_COLLECTIONS.includes(collection) &&
+    rest.length <= 1 &&
+    rest.every((segment) => segment !== "") &&
+    !searchParams.has("_embed") &&
+    !searchParams.has("_expand")
+  );
+};
+
+module.exports = { readBody, isRouterRoute };
@@ -0,0 +1,89 @@
+// SKUs and EAN/UPC barcodes identify a product, or one of its variants, at a
+// scanner. Both are optional but unique across the store: SKUs ignoring case,
+// barcodes as GTINs, so a UPC-A and the same code printed as an EAN-13 match.
+// Keep in sync with src/utils/barcode.ts
+
+const BARCODE_LENGTHS = [8, 12, 13]; // EAN-8, UPC-A, EAN-13
+
+// Weights alternate 3, 1, 3, ... from the digit next to the check digit
+const checkDigit = (digits) => {
+  const sum = [...digits].reverse().reduce((acc, d, i) => acc + Number(d) * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+const isValidBarcode = (code) =>
+  typeof code === "string" &&
+  /^\d+$/.test(code) &&
+  BARCODE_LENGTHS.includes(code.length) &&
+  checkDigit(code.slice(0, -1)) === Number(code.slice(-1));
+
+const gtinKey = (barcode) => barcode.padStart(14, "0");
+
+// Trims the codes on a product and its variants in place, dropping empty barcodes
+const normalizeIdentifiers = (product) => {
+  [product, ...(product.variants || [])].forEach((item) => {
+    if (typeof item.sku === "string") item.sku = item.sku.trim();
+    if (typeof item.barcode === "string") item.barcode = item.barcode.trim();
+    if (item.barcode === "") delete item.barcode;
+  });
+  if (product.sku === "") delete product.sku; // Variants always need one; validateVariants says so
+  return product;
+};
+
+// Returns an error message, or null when every code is well formed
+const validateIdentifiers = (product) => {
+  const items = [product, ...(product.variants || [])];
+  for (const item of items) {
+    if (item.sku !== undefined && typeof item.sku !== "string") return "SKU must be text";
+    if (item.barcode !== undefined && !isValidBarcode(item.barcode)) {
+      return `Barcode "${item.barcode}" is not a valid EAN-8, UPC-A or EAN-13 code`;
+    }
+  }
+  return null;
+};
+
+// Every code a product answers to, with a key that compares equal for the same code
+const productCodes = (product) =>
+  [product, ...(product.variants || [])].flatMap((item) => [
+    ...(item.sku ? [{ label: `SKU "${item.sku}"`, key: `sku:${item.sku.toLowerCase()}`, item }] : []),
+    ...(item.barcode ? [{ label: `Barcode "${item.barcode}"`, key: `gtin:${gtinKey(item.barcode)}`, item }] : []),
+  ]);
+
+// Returns an error message when one of the product's codes is repeated on it or
+// already belongs to another product, otherwise null
+const findIdentifierConflict = (db, product) => {
+  const own = new Set();
+  for (const { label, key } of productCodes(product)) {
+    if (own.has(key)) return `${label} is used more than once on "${product.name}"`;
+    own.add(key);
+  }
+  const others = db
+    .get("products")
+    .filter((p) => p.id !== product.id)
+    .value();
+  for (const other of others) {
+    const clash = productCodes(other).find(({ key }) => own.has(key));
+    if (clash) return `${clash.label} is already used by "${other.name}"`;
+  }
+  return null;
+};
+
+// The product, and the variant when the code belongs to one, for an exact
+// SKU or barcode match
+const findByCode = (products, code) => {
+  const wanted = code.trim();
+  const keys = [`sku:${wanted.toLowerCase()}`, ...(/^\d+$/.test(wanted) ? [`gtin:${gtinKey(wanted)}`] : [])];
+  for (const product of products) {
+    const match = productCodes(product).find(({ key }) => keys.includes(key));
+    if (match) return { product, variant: match.item === product ? undefined : match.item };
+  }
+  return null;
+};
+
+module.exports = {
+  isValidBarcode,
+  normalizeIdentifiers,
+  validateIdentifiers,
+  findIdentifierConflict,
+  findByCode,
+};
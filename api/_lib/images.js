@@ -0,0 +1,29 @@
+// Products keep an ordered `images` list; the first entry is the primary image.
+// Records written before galleries existed have a single `url` (and, for
+// uploads, a `thumbnailUrl`), which is folded into the list as its primary image.
+
+const isValidImages = (images) =>
+  Array.isArray(images) &&
+  images.every(
+    (image) =>
+      image &&
+      typeof image.url === "string" &&
+      image.url !== "" &&
+      (image.thumbnailUrl === undefined || typeof image.thumbnailUrl === "string")
+  );
+
+// Moves a legacy url into images, in place. Safe to run on migrated records.
+const normalizeImages = (product) => {
+  const images = Array.isArray(product.images) ? product.images : [];
+  if (product.url) {
+    const primary = { url: product.url, ...(product.thumbnailUrl ? { thumbnailUrl: product.thumbnailUrl } : {}) };
+    product.images = [primary, ...images.filter((image) => image.url !== product.url)];
+  } else {
+    product.images = images;
+  }
+  delete product.url;
+  delete product.thumbnailUrl;
+  return product;
+};
+
+module.exports = { isValidImages, normalizeImages };
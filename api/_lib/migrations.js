@@ -0,0 +1,15 @@
+const { normalizeImages } = require("./images");
+
+// Upgrades older db.json data as it is loaded. Every migration must be safe to
+// run again on migrated data; the result is saved with the next write.
+const MIGRATIONS = [
+  // Single product url -> ordered images list
+  (db) => {
+    db.get("products").value().forEach(normalizeImages);
+    (db.get("trash").value() || []).forEach(normalizeImages);
+  },
+];
+
+const migrate = (db) => MIGRATIONS.forEach((migration) => migration(db));
+
+module.exports = { migrate };
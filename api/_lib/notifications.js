@@ -0,0 +1,169 @@
+const { readBody } = require("./http");
+const { hasPermission } = require("./permissions");
+const { variantName } = require("./variants");
+
+// Keep in sync with src/types/notification.ts.
+// Each type is shown to the users holding the matching permission.
+const AUDIENCE = {
+  "low-stock": "stock:adjust",
+  "out-of-stock": "stock:adjust",
+  "new-order": "orders:manage",
+  "bulk-upload-failed": "products:write",
+};
+const TYPES = Object.keys(AUDIENCE);
+const FALLBACK_REORDER_POINT = 10;
+const LIST_LIMIT = 50;
+
+// Adds a notification. Does not write; the caller saves it with its changes.
+// Read and dismissed state is per user, since one notification reaches many.
+const notify = (db, { type, title, message, link }) =>
+  db
+    .get("notifications")
+    .insert({
+      type,
+      title,
+      message,
+      link: link || null,
+      readBy: [],
+      dismissedBy: [],
+      createdAt: new Date().toISOString(),
+    })
+    .value();
+
+// Mirrors resolveReorderPoint in src/utils/reorderPoint.ts
+const reorderPointFor = (db, product) => {
+  if (product.reorderPoint !== undefined) return product.reorderPoint;
+  const category = db.get("categories").find({ name: product.category }).value();
+  if (category && category.reorderPoint !== undefined && category.reorderPoint !== null) {
+    return category.reorderPoint;
+  }
+  const settings = db.get("settings").value() || {};
+  return settings.defaultReorderPoint ?? FALLBACK_REORDER_POINT;
+};
+
+// Notifies when stock crosses down into low or out-of-stock, not on every
+// change while it stays there. Products with variants are checked per variant;
+// a variant's own reorder point overrides the product's.
+const notifyStockLevel = (db, product, previousStock, variant) => {
+  const link = `/products/${product.id}`;
+  const name = variant ? variantName(product, variant) : product.name;
+  const { stock } = variant || product;
+  if (stock === 0 && previousStock > 0) {
+    return notify(db, {
+      type: "out-of-stock",
+      title: "Out of stock",
+      message: `${name} is out of stock.`,
+      link,
+    });
+  }
+  const reorderPoint = variant?.reorderPoint ?? reorderPointFor(db, product);
+  if (stock > 0 && stock <= reorderPoint && previousStock > reorderPoint) {
+    return notify(db, {
+      type: "low-stock",
+      title: "Low stock",
+      message: `${name} has only ${stock} units left (reorder point ${reorderPoint}).`,
+      link,
+    });
+  }
+  return null;
+};
+
+const isVisibleTo = (user) => (n) =>
+  hasPermission(user, AUDIENCE[n.type]) && !n.dismissedBy.includes(user.id);
+
+const toClient = (user) => ({ readBy, dismissedBy: _dismissedBy, ...n }) => ({
+  ...n,
+  read: readBy.includes(user.id),
+});
+
+const findVisible = (db, user, id) => {
+  const notification = db.get("notifications").find({ id }).value();
+  return notification && isVisibleTo(user)(notification) ? notification : null;
+};
+
+const listNotifications = (db, req, res, user) => {
+  const notifications = db
+    .get("notifications")
+    .filter(isVisibleTo(user))
+    .orderBy("createdAt", "desc")
+    .take(LIST_LIMIT)
+    .value();
+  res.status(200).json(notifications.map(toClient(user)));
+};
+
+const markRead = async (db, req, res, user, id) => {
+  const notification = findVisible(db, user, id);
+  if (!notification) {
+    return res.status(404).json({ error: "Notification not found" });
+  }
+  const { read } = await readBody(req);
+  notification.readBy = notification.readBy.filter((userId) => userId !== user.id);
+  if (read !== false) notification.readBy.push(user.id);
+  db.write();
+  res.status(200).json(toClient(user)(notification));
+};
+
+const markAllRead = (db, req, res, user) => {
+  db.get("notifications")
+    .filter(isVisibleTo(user))
+    .each((n) => {
+      if (!n.readBy.includes(user.id)) n.readBy.push(user.id);
+    })
+    .value();
+  db.write();
+  res.status(200).json({});
+};
+
+const dismissNotification = (db, req, res, user, id) => {
+  const notification = findVisible(db, user, id);
+  if (!notification) {
+    return res.status(404).json({ error: "Notification not found" });
+  }
+  notification.dismissedBy.push(user.id);
+  db.write();
+  res.status(200).json({});
+};
+
+// Clients can only raise events that happen in the browser
+const reportNotification = async (db, req, res, user) => {
+  const { type, message } = await readBody(req);
+  if (type !== "bulk-upload-failed") {
+    return res.status(400).json({ error: "Only failed bulk uploads can be reported" });
+  }
+  if (!hasPermission(user, AUDIENCE[type])) {
+    return res.status(403).json({ error: "You do not have permission to do this" });
+  }
+  const notification = notify(db, {
+    type,
+    title: "Bulk upload failed",
+    message: `${user.username}: ${String(message || "The file could not be imported.")}`,
+  });
+  db.write();
+  res.status(201).json(toClient(user)(notification));
+};
+
+// Which types pop up as toasts; all of them until the user says otherwise
+const getPreferences = (db, req, res, user) => {
+  res.status(200).json({ toastTypes: user.notificationToasts || TYPES });
+};
+
+const updatePreferences = async (db, req, res, user) => {
+  const { toastTypes } = await readBody(req);
+  if (!Array.isArray(toastTypes) || toastTypes.some((type) => !TYPES.includes(type))) {
+    return res.status(400).json({ error: `Toast types must be among: ${TYPES.join(", ")}` });
+  }
+  db.get("users").find({ id: user.id }).assign({ notificationToasts: toastTypes }).write();
+  res.status(200).json({ toastTypes });
+};
+
+module.exports = {
+  notify,
+  notifyStockLevel,
+  listNotifications,
+  markRead,
+  markAllRead,
+  dismissNotification,
+  reportNotification,
+  getPreferences,
+  updatePreferences,
+};
@@ -0,0 +1,165 @@
+const { readBody } = require("./http");
+const { notify } = require("./notifications");
+const { hasPermission } = require("./permissions");
+const { recordMovement } = require("./stock");
+const { applyVariants, findVariant, hasVariants, variantName } = require("./variants");
+
+// Allowed status changes; cancelling puts the stock back
+const TRANSITIONS = {
+  pending: ["shipped", "cancelled"],
+  shipped: ["delivered"],
+  delivered: [],
+  cancelled: [],
+};
+
+const listOrders = (db, req, res, user) => {
+  const orders = hasPermission(user, "orders:manage")
+    ? db.get("orders")
+    : db.get("orders").filter({ userId: user.id });
+  res.status(200).json(orders.orderBy("createdAt", "desc").value());
+};
+
+const getOrder = (db, req, res, user, id) => {
+  const order = db.get("orders").find({ id }).value();
+  if (!order || (order.userId !== user.id && !hasPermission(user, "orders:manage"))) {
+    return res.status(404).json({ error: "Order not found" });
+  }
+  res.status(200).json(order);
+};
+
+const isOrderItem = (item) =>
+  Boolean(item) &&
+  typeof item === "object" &&
+  typeof item.productId === "string" &&
+  (item.variantId === undefined || item.variantId === null || typeof item.variantId === "string") &&
+  Number.isInteger(item.quantity) &&
+  item.quantity >= 1;
+
+// Checks every line against current stock before touching anything, then
+// decrements stock and records the order in a single write. Handlers run to
+// completion without yielding, so no other order can interleave.
+const createOrder = async (db, req, res, user) => {
+  const { items } = await readBody(req);
+  if (!Array.isArray(items) || items.length === 0) {
+    return res.status(400).json({ error: "An order needs at least one item" });
+  }
+  if (!items.every(isOrderItem)) {
+    return res.status(400).json({ error: "Each item needs a productId and a whole, positive quantity" });
+  }
+
+  // Lines for the same product or variant are checked and sold together, so
+  // splitting a quantity across lines cannot get past the stock check
+  const merged = new Map();
+  items.forEach(({ productId, variantId, quantity }) => {
+    const key = `${productId}:${variantId || ""}`;
+    const line = merged.get(key);
+    if (line) line.quantity += quantity;
+    else merged.set(key, { productId, variantId: variantId || undefined, quantity });
+  });
+
+  const lines = [];
+  const problems = [];
+  for (const { productId, variantId, quantity } of merged.values()) {
+    const product = db.get("products").find({ id: productId }).value();
+    // Products with variants are sold per variant
+    const variant = product && hasVariants(product) ? findVariant(product, variantId) : undefined;
+    const stocked = variant || product;
+    const name = variant ? variantName(product, variant) : product && product.name;
+    if (!product) {
+      problems.push({ productId, variantId, error: "Product no longer exists" });
+    } else if (hasVariants(product) && !variant) {
+      problems.push({ productId, variantId, error: `That option of "${product.name}" no longer exists` });
+    } else if (quantity > stocked.stock) {
+      problems.push({
+        productId,
+        variantId,
+        available: stocked.stock,
+        error: `Only ${stocked.stock} of "${name}" in stock`,
+      });
+    } else {
+      lines.push({ product, variant, name, quantity });
+    }
+  }
+  if (problems.length > 0) {
+    return res.status(409).json({ error: problems.map((p) => p.error).join("; "), problems });
+  }
+
+  const orderItems = lines.map(({ product, variant, name, quantity }) => ({
+    productId: product.id,
+    ...(variant ? { variantId: variant.id, sku: variant.sku } : {}),
+    name,
+    price: (variant || product).price, // Price at the time of purchase
+    quantity,
+  }));
+  const order = db
+    .get("orders")
+    .insert({
+      userId: user.id,
+      username: user.username,
+      items: orderItems,
+      total: orderItems.reduce((acc, i) => acc + i.price * i.quantity, 0),
+      status: "pending",
+      createdAt: new Date().toISOString(),
+    })
+    .value();
+  lines.forEach(({ product, variant, quantity }) => {
+    (variant || product).stock -= quantity;
+    applyVariants(product);
+    recordMovement(db, { product, variant, delta: -quantity, reason: "sale", user, note: `Order #${order.id}` });
+  });
+  notify(db, {
+    type: "new-order",
+    title: "New order",
+    message: `Order #${order.id} from ${user.username}: ${orderItems.length} item(s), total ₹${order.total.toFixed(2)}.`,
+    link: "/orders",
+  });
+  db.write();
+  res.status(201).json(order);
+};
+
+const updateOrderStatus = async (db, req, res, user, id) => {
+  const order = db.get("orders").find({ id }).value();
+  if (!order) {
+    return res.status(404).json({ error: "Order not found" });
+  }
+
+  const { status } = await readBody(req);
+  if (!(TRANSITIONS[order.status] || []).includes(status)) {
+    return res.status(409).json({ error: `Cannot change an order from ${order.status} to ${status}` });
+  }
+
+  // Cancelling puts the stock back, on trashed products too so a restore
+  // brings it with them. Lines whose product was purged, or whose variant no
+  // longer matches, are kept on the order as notRestocked.
+  const changes = { status, updatedAt: new Date().toISOString() };
+  if (status === "cancelled") {
+    const notRestocked = order.items.filter(({ productId, variantId, quantity }) => {
+      const product =
+        db.get("products").find({ id: productId }).value() || db.get("trash").find({ id: productId }).value();
+      if (!product) return true;
+      const variant = hasVariants(product) ? findVariant(product, variantId) : undefined;
+      // The variant is gone, or the product gained or lost variants since the sale
+      if (hasVariants(product) ? !variant : variantId) return true;
+      (variant || product).stock += quantity;
+      applyVariants(product);
+      recordMovement(db, {
+        product,
+        variant,
+        delta: quantity,
+        reason: "return",
+        user,
+        note: `Order #${order.id} cancelled`,
+      });
+      return false;
+    });
+    if (notRestocked.length > 0) changes.notRestocked = notRestocked;
+  }
+  const updated = db
+    .get("orders")
+    .find({ id })
+    .assign(changes)
+    .write();
+  res.status(200).json(updated);
+};
+
+module.exports = { listOrders, getOrder, createOrder, updateOrderStatus };
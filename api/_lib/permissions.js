@@ -0,0 +1,50 @@
+// Keep in sync with src/utils/permissions.ts
+
+const ROLE_PERMISSIONS = {
+  admin: [
+    "products:write",
+    "products:delete",
+    "categories:manage",
+    "stock:adjust",
+    "reports:view",
+    "users:manage",
+    "settings:manage",
+    "orders:view",
+    "orders:manage",
+    "audit:view",
+  ],
+  clerk: ["stock:adjust", "reports:view"],
+  user: ["cart:use", "orders:view"],
+};
+
+const ROLES = Object.keys(ROLE_PERMISSIONS);
+
+const hasPermission = (user, permission) =>
+  Boolean(user) && (ROLE_PERMISSIONS[user.role] || []).includes(permission);
+
+// Permission needed for a request, or null if the route is open.
+// Reads are open except for accounts, the trash, the stock ledger and the audit log.
+const requiredPermission = (method, pathname) => {
+  if (pathname === "/users" || pathname.startsWith("/users/")) return "users:manage";
+  if (pathname === "/auditLog" || pathname.startsWith("/auditLog/")) return "audit:view";
+  if (pathname === "/trash" || pathname.startsWith("/trash/")) return "products:delete";
+  if (pathname === "/stockMovements" || pathname.startsWith("/stockMovements/")) {
+    return "reports:view";
+  }
+  if (method === "GET" || method === "HEAD") return null;
+  if (pathname === "/settings") return "settings:manage";
+  if (pathname === "/categories" || pathname.startsWith("/categories/")) {
+    return "categories:manage";
+  }
+  if (pathname === "/uploads") return "products:write"; // Product images
+  if (pathname === "/orders") return "cart:use"; // Placing an order
+  if (pathname.startsWith("/orders/")) return "orders:manage";
+  if (pathname === "/products" || pathname.startsWith("/products/")) {
+    if (method === "DELETE") return "products:delete";
+    if (/^\/products\/[^/]+\/stock$/.test(pathname)) return "stock:adjust";
+    return "products:write";
+  }
+  return null;
+};
+
+module.exports = { ROLE_PERMISSIONS, ROLES, hasPermission, requiredPermission };
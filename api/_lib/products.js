@@ -0,0 +1,250 @@
+const { recordAudit, stamp } = require("./audit");
+const { readBody } = require("./http");
+const {
+  findByCode,
+  findIdentifierConflict,
+  normalizeIdentifiers,
+  validateIdentifiers,
+} = require("./identifiers");
+const { isValidImages, normalizeImages } = require("./images");
+const { notifyStockLevel } = require("./notifications");
+const { recordMovement } = require("./stock");
+const { isValidReorderPoint } = require("./validation");
+const {
+  applyVariants,
+  findVariant,
+  hasVariants,
+  validateVariants,
+  variantStockChanges,
+} = require("./variants");
+
+const REORDER_POINT_ERROR = "Reorder point must be a whole number of 0 or more";
+const IMAGES_ERROR = "Images must be a list of { url, thumbnailUrl } entries";
+
+// Names are unique ignoring case
+const findByName = (db, name, exceptId) =>
+  db
+    .get("products")
+    .find((p) => p.id !== exceptId && p.name.toLowerCase() === String(name).toLowerCase())
+    .value();
+
+// Opening stock counts as a drop from "not low", so a product or variant that
+// starts low or out of stock is flagged straight away rather than on its next sale
+const notifyOpeningStock = (db, product, variant) => notifyStockLevel(db, product, Infinity, variant);
+
+// Products go in an existing category. An archived one keeps the products
+// already in it but takes no new ones.
+const validateCategory = (db, name, currentName) => {
+  if (name === currentName) return null;
+  const category = db.get("categories").find({ name }).value();
+  if (!category) return `Category "${name}" does not exist`;
+  if (category.archived) return `Category "${name}" is archived`;
+  return null;
+};
+
+// Returns an error message for a field of the wrong type, or null. Price is
+// derived from the variants when there are some, so it is only checked without.
+const validateFields = (product) => {
+  if (typeof product.name !== "string" || !product.name.trim()) return "Product name is required";
+  if (typeof product.category !== "string" || !product.category.trim()) return "Category is required";
+  if (product.description !== undefined && typeof product.description !== "string") {
+    return "Description must be text";
+  }
+  if (!hasVariants(product) && (typeof product.price !== "number" || !(product.price > 0))) {
+    return "Price must be a number above 0";
+  }
+  return null;
+};
+
+// Product writes go through here so every stock change lands in the ledger
+// and every edit or delete lands in the audit log. The API assigns ids, so a
+// client-supplied one is ignored.
+const createProduct = async (db, req, res, user) => {
+  const { id: _id, ...body } = await readBody(req);
+  const fieldError = validateFields(body) || validateCategory(db, body.category);
+  if (fieldError) {
+    return res.status(400).json({ error: fieldError });
+  }
+  if (!hasVariants(body) && body.stock !== undefined && !(Number.isInteger(body.stock) && body.stock >= 0)) {
+    return res.status(400).json({ error: "Stock must be a whole number of 0 or more" });
+  }
+  if (body.reorderPoint !== undefined && !isValidReorderPoint(body.reorderPoint)) {
+    return res.status(400).json({ error: REORDER_POINT_ERROR });
+  }
+  if (body.images !== undefined && !isValidImages(body.images)) {
+    return res.status(400).json({ error: IMAGES_ERROR });
+  }
+  const variantError = validateVariants(body.attributes, body.variants);
+  if (variantError) {
+    return res.status(400).json({ error: variantError });
+  }
+  const identifierError = validateIdentifiers(normalizeIdentifiers(body));
+  if (identifierError) {
+    return res.status(400).json({ error: identifierError });
+  }
+  if (findByName(db, body.name)) {
+    return res.status(409).json({ error: `A product named "${body.name}" already exists` });
+  }
+  const conflict = findIdentifierConflict(db, body);
+  if (conflict) {
+    return res.status(409).json({ error: conflict });
+  }
+  const changes = stamp(user);
+  const fields = { ...body, stock: Number(body.stock) || 0, createdAt: changes.updatedAt, ...changes };
+  const product = db.get("products").insert(applyVariants(normalizeImages(fields))).value();
+  const initial = hasVariants(product)
+    ? product.variants.map((variant) => ({ variant, delta: variant.stock }))
+    : [{ delta: product.stock }];
+  initial.forEach(({ variant, delta }) => {
+    if (delta > 0) recordMovement(db, { product, variant, delta, reason: "restock", user, note: "Initial stock" });
+    notifyOpeningStock(db, product, variant);
+  });
+  db.write();
+  res.status(201).json(product);
+};
+
+// PUT replaces the product, PATCH merges into it. Stock only changes through
+// adjustments and orders, so saved stock is kept whatever the body says; only
+// variants added here take the stock given for them, as their opening stock.
+// A null reorderPoint clears the product's own override.
+const updateProduct = async (db, req, res, user, id) => {
+  const product = db.get("products").find({ id }).value();
+  if (!product) {
+    return res.status(404).json({ error: "Product not found" });
+  }
+
+  const body = await readBody(req);
+  if (body.reorderPoint != null && !isValidReorderPoint(body.reorderPoint)) {
+    return res.status(400).json({ error: REORDER_POINT_ERROR });
+  }
+  if (body.images !== undefined && !isValidImages(body.images)) {
+    return res.status(400).json({ error: IMAGES_ERROR });
+  }
+  const before = { ...product };
+  const next = normalizeImages(req.method === "PUT" ? { ...body, id } : { ...product, ...body, id });
+  if (next.reorderPoint === null) delete next.reorderPoint;
+  next.stock = hasVariants(before) ? 0 : before.stock; // Recalculated from the variants, if any
+  if (Array.isArray(next.variants)) {
+    next.variants = next.variants.map((variant) => {
+      const saved = variant && findVariant(before, variant.id);
+      return saved ? { ...variant, stock: saved.stock } : variant;
+    });
+  }
+  const variantError = validateVariants(next.attributes, next.variants);
+  if (variantError) {
+    return res.status(400).json({ error: variantError });
+  }
+  const fieldError = validateFields(next) || validateCategory(db, next.category, before.category);
+  if (fieldError) {
+    return res.status(400).json({ error: fieldError });
+  }
+  const identifierError = validateIdentifiers(normalizeIdentifiers(next));
+  if (identifierError) {
+    return res.status(400).json({ error: identifierError });
+  }
+  if (findByName(db, next.name, id)) {
+    return res.status(409).json({ error: `A product named "${next.name}" already exists` });
+  }
+  const conflict = findIdentifierConflict(db, next);
+  if (conflict) {
+    return res.status(409).json({ error: conflict });
+  }
+  next.createdAt = before.createdAt; // Clients cannot rewrite history
+  Object.assign(next, stamp(user), applyVariants(next));
+
+  Object.keys(product).forEach((key) => delete product[key]);
+  Object.assign(product, next);
+  const changes = variantStockChanges(before, product);
+  // Whatever the variants do not account for, e.g. stock held before the product had variants
+  const unassigned = product.stock - before.stock - changes.reduce((acc, c) => acc + c.delta, 0);
+  if (unassigned !== 0) changes.push({ delta: unassigned });
+  changes.forEach(({ variant, delta }) =>
+    variant && !findVariant(before, variant.id)
+      ? recordMovement(db, { product, variant, delta, reason: "restock", user, note: "Initial stock" })
+      : recordMovement(db, { product, variant, delta, reason: "correction", user, note: "Edited on product" })
+  );
+  (product.variants || [])
+    .filter((variant) => !findVariant(before, variant.id))
+    .forEach((variant) => notifyOpeningStock(db, product, variant));
+  recordAudit(db, { action: "update", before, after: product, user });
+  db.write();
+  res.status(200).json(product);
+};
+
+// Deleting moves the product to the trash, stamped with deletedAt, so it drops
+// out of every product query and can still be restored
+const deleteProduct = (db, req, res, user, id) => {
+  const product = db.get("products").find({ id }).value();
+  if (!product) {
+    return res.status(404).json({ error: "Product not found" });
+  }
+
+  db.get("products").remove({ id }).value();
+  const trashed = { ...product, deletedAt: new Date().toISOString(), deletedBy: user ? user.username : null };
+  db.get("trash").push(trashed).value();
+  recordAudit(db, { action: "delete", before: product, after: null, user });
+  db.write();
+  res.status(200).json(trashed);
+};
+
+const listTrash = (db, req, res) => {
+  res.status(200).json(db.get("trash").orderBy("deletedAt", "desc").value());
+};
+
+const restoreProduct = (db, req, res, user, id) => {
+  const trashed = db.get("trash").find({ id }).value();
+  if (!trashed) {
+    return res.status(404).json({ error: "Product not found in trash" });
+  }
+  if (findByName(db, trashed.name)) {
+    return res.status(409).json({ error: `A product named "${trashed.name}" already exists` });
+  }
+  const conflict = findIdentifierConflict(db, trashed);
+  if (conflict) {
+    return res.status(409).json({ error: conflict });
+  }
+
+  const { deletedAt: _deletedAt, deletedBy: _deletedBy, ...product } = trashed;
+  Object.assign(product, stamp(user));
+  db.get("trash").remove({ id }).value();
+  db.get("products").push(product).value();
+  recordAudit(db, { action: "restore", before: null, after: product, user });
+  db.write();
+  res.status(200).json(product);
+};
+
+const purgeProduct = (db, req, res, user, id) => {
+  const trashed = db.get("trash").find({ id }).value();
+  if (!trashed) {
+    return res.status(404).json({ error: "Product not found in trash" });
+  }
+
+  db.get("trash").remove({ id }).value();
+  recordAudit(db, { action: "purge", before: trashed, after: null, user });
+  db.write();
+  res.status(200).json({});
+};
+
+// Exact SKU or barcode match, for scanners. Responds with the product and,
+// when the code belongs to one, the variant.
+const lookupProduct = (db, req, res) => {
+  const code = new URL(req.url, "http://localhost").searchParams.get("code") || "";
+  if (!code.trim()) {
+    return res.status(400).json({ error: "Enter a SKU or barcode" });
+  }
+  const match = findByCode(db.get("products").value(), code);
+  if (!match) {
+    return res.status(404).json({ error: `No product has the SKU or barcode "${code.trim()}"` });
+  }
+  res.status(200).json({ product: match.product, variant: match.variant || null });
+};
+
+module.exports = {
+  createProduct,
+  updateProduct,
+  deleteProduct,
+  listTrash,
+  restoreProduct,
+  purgeProduct,
+  lookupProduct,
+};
@@ -0,0 +1,86 @@
+// Filtering, sorting and paging for collection lists, in the query string the
+// client sends (src/utils/productFilters.ts builds it for products):
+//   field=value   exact match; repeat the field to match any of several values
+//   q=text        case-insensitive substring of any of the collection's search fields
+//   _sort=a,-b    sort by a, then by b descending
+//   _page, _per_page
+// Other parameters starting with "_" are ignored.
+// With _page the response is a page envelope with the total, otherwise a list.
+
+const DEFAULT_PER_PAGE = 10;
+
+// Fields `q` looks in, per collection; others ignore it
+const SEARCH_FIELDS = {
+  products: ["name", "sku"],
+};
+
+// Numbers by value, everything else as text; missing values sort last
+const compareValues = (a, b) => {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return 1;
+  if (b === undefined || b === null) return -1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b), undefined, { sensitivity: "base", numeric: true });
+};
+
+const positiveInt = (value, fallback) => {
+  const number = Number(value);
+  return Number.isInteger(number) && number >= 1 ? number : fallback;
+};
+
+// The page envelope, as json-server v1 returns it
+const paginate = (items, page, perPage) => {
+  const pages = Math.ceil(items.length / perPage);
+  return {
+    first: 1,
+    prev: page > 1 ? page - 1 : null,
+    next: page < pages ? page + 1 : null,
+    last: Math.max(pages, 1),
+    pages,
+    items: items.length,
+    data: items.slice((page - 1) * perPage, page * perPage),
+  };
+};
+
+const queryItems = (items, searchParams, searchFields = []) => {
+  let result = items;
+
+  const fields = [...new Set(searchParams.keys())].filter((key) => key !== "q" && !key.startsWith("_"));
+  fields.forEach((field) => {
+    const values = searchParams.getAll(field);
+    result = result.filter((item) => item[field] !== undefined && values.includes(String(item[field])));
+  });
+
+  const q = (searchParams.get("q") || "").trim().toLowerCase();
+  if (q && searchFields.length > 0) {
+    result = result.filter((item) =>
+      searchFields.some((field) => typeof item[field] === "string" && item[field].toLowerCase().includes(q))
+    );
+  }
+
+  const sort = (searchParams.get("_sort") || "")
+    .split(",")
+    .filter(Boolean)
+    .map((key) => (key.startsWith("-") ? { field: key.slice(1), direction: -1 } : { field: key, direction: 1 }));
+  if (sort.length > 0) {
+    result = [...result].sort((a, b) => {
+      for (const { field, direction } of sort) {
+        const order = compareValues(a[field], b[field]);
+        // Missing values stay last either way
+        if (order !== 0) return a[field] == null || b[field] == null ? order : order * direction;
+      }
+      return 0;
+    });
+  }
+
+  if (!searchParams.has("_page")) return result;
+  const perPage = positiveInt(searchParams.get("_per_page"), DEFAULT_PER_PAGE);
+  return paginate(result, positiveInt(searchParams.get("_page"), 1), perPage);
+};
+
+const listCollection = (db, req, res, collection) => {
+  const { searchParams } = new URL(req.url, "http://localhost");
+  res.status(200).json(queryItems(db.get(collection).value(), searchParams, SEARCH_FIELDS[collection]));
+};
+
+module.exports = { queryItems, listCollection };
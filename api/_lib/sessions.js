@@ -0,0 +1,93 @@
+const {
+  hashPassword,
+  verifyPassword,
+  signToken,
+  verifyToken,
+  canRefresh,
+  readBearerToken,
+  toPublicUser,
+} = require("./auth");
+const { readBody } = require("./http");
+const { hasPermission, requiredPermission } = require("./permissions");
+const { isUsernameTaken } = require("./users");
+const { validateUsername, validatePassword } = require("./validation");
+
+const login = async (db, req, res) => {
+  const { username, password } = await readBody(req);
+  if (typeof username !== "string" || typeof password !== "string" || !username || !password) {
+    return res.status(400).json({ error: "Username and password are required" });
+  }
+
+  const user = db.get("users").find({ username }).value();
+  if (!user || !verifyPassword(password, user.passwordHash)) {
+    return res.status(401).json({ error: "Invalid credentials" });
+  }
+  if (user.active === false) {
+    return res.status(403).json({ error: "This account has been deactivated" });
+  }
+
+  res.status(200).json({ token: signToken(user), user: toPublicUser(user) });
+};
+
+// Exchanges a still-valid token for a fresh one with the user's current role
+const refresh = (db, req, res) => {
+  const claims = verifyToken(readBearerToken(req));
+  const user = claims && db.get("users").find({ id: claims.sub }).value();
+  if (!user || user.active === false || !canRefresh(claims)) {
+    return res.status(401).json({ error: "Your session has expired. Please log in again." });
+  }
+
+  res.status(200).json({ token: signToken(user, claims.auth_time), user: toPublicUser(user) });
+};
+
+const register = async (db, req, res) => {
+  const settings = db.get("settings").value() || {};
+  if (settings.allowRegistration === false) {
+    return res.status(403).json({ error: "Registration is currently closed" });
+  }
+
+  const { username, password } = await readBody(req);
+  const validationError = validateUsername(username) || validatePassword(password);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  if (isUsernameTaken(db, username)) {
+    return res.status(409).json({ error: "Username is already taken" });
+  }
+
+  const user = db
+    .get("users")
+    .insert({ username, role: "user", active: true, passwordHash: hashPassword(password) })
+    .write();
+
+  res.status(201).json({ token: signToken(user), user: toPublicUser(user) });
+};
+
+// The active user behind the request's bearer token, or null
+const sessionUser = (db, req) => {
+  const claims = verifyToken(readBearerToken(req));
+  const user = claims && db.get("users").find({ id: claims.sub }).value();
+  return user && user.active !== false ? user : null;
+};
+
+// Guarded routes need the matching permission. The role is read from the users
+// table rather than the token, so role changes and deactivations apply at once.
+// Writes the error response and returns false when the request must stop here.
+const authorize = (db, req, res, pathname) => {
+  const permission = requiredPermission(req.method, pathname);
+  if (!permission) return true;
+
+  const user = sessionUser(db, req);
+  if (!user) {
+    res.status(401).json({ error: "Please log in to continue" });
+    return false;
+  }
+  if (!hasPermission(user, permission)) {
+    res.status(403).json({ error: "You do not have permission to do this" });
+    return false;
+  }
+  return true;
+};
+
+module.exports = { login, refresh, register, sessionUser, authorize };
@@ -0,0 +1,36 @@
+const { readBody } = require("./http");
+const { isValidReorderPoint } = require("./validation");
+
+// The settings an admin can change, each with its check
+const SETTINGS = {
+  allowRegistration: {
+    isValid: (value) => typeof value === "boolean",
+    error: "Allow registration must be true or false",
+  },
+  defaultReorderPoint: {
+    isValid: isValidReorderPoint,
+    error: "Default reorder point must be a whole number of 0 or more",
+  },
+};
+
+// Merges the given settings, refusing unknown keys and bad values outright
+const updateSettings = async (db, req, res) => {
+  const body = await readBody(req);
+  const changes = Object.entries(body);
+  if (changes.length === 0) {
+    return res.status(400).json({ error: "No settings to change" });
+  }
+  for (const [key, value] of changes) {
+    if (!Object.hasOwn(SETTINGS, key)) {
+      return res.status(400).json({ error: `Unknown setting "${key}"` });
+    }
+    if (!SETTINGS[key].isValid(value)) {
+      return res.status(400).json({ error: SETTINGS[key].error });
+    }
+  }
+
+  const settings = db.get("settings").assign(body).write();
+  res.status(200).json(settings);
+};
+
+module.exports = { updateSettings };
@@ -0,0 +1,68 @@
+const { stamp } = require("./audit");
+const { readBody } = require("./http");
+const { notifyStockLevel } = require("./notifications");
+const { applyVariants, findVariant, hasVariants, variantLabel, variantName } = require("./variants");
+
+const REASONS = ["restock", "sale", "return", "damage", "correction"];
+
+// Adds a ledger entry for a stock change that has already been applied to
+// `product` (or to its `variant`), and notifies if it left the product or
+// variant low or out of stock. stockAfter is the variant's stock when there is
+// one. Does not write; the caller saves it with the rest of its changes.
+const recordMovement = (db, { product, variant, delta, reason, user, note }) => {
+  if (variant) {
+    // A removed variant is gone rather than out of stock
+    if (findVariant(product, variant.id)) notifyStockLevel(db, product, variant.stock - delta, variant);
+  } else if (!hasVariants(product)) {
+    notifyStockLevel(db, product, product.stock - delta);
+  }
+  return db
+    .get("stockMovements")
+    .insert({
+      productId: product.id,
+      productName: product.name,
+      ...(variant ? { variantId: variant.id, variantName: variantLabel(product, variant) } : {}),
+      delta,
+      stockAfter: variant ? variant.stock : product.stock,
+      reason,
+      note: note || "",
+      userId: user ? user.id : null,
+      username: user ? user.username : null,
+      createdAt: new Date().toISOString(),
+    })
+    .value();
+};
+
+const adjustStock = async (db, req, res, user, productId) => {
+  const product = db.get("products").find({ id: productId }).value();
+  if (!product) {
+    return res.status(404).json({ error: "Product not found" });
+  }
+
+  const { delta, reason, note, variantId } = await readBody(req);
+  if (!Number.isInteger(delta) || delta === 0) {
+    return res.status(400).json({ error: "Adjustment must be a whole, non-zero number" });
+  }
+  if (!REASONS.includes(reason)) {
+    return res.status(400).json({ error: `Reason must be one of: ${REASONS.join(", ")}` });
+  }
+  const variant = variantId === undefined ? undefined : findVariant(product, variantId);
+  if (hasVariants(product) ? !variant : variantId !== undefined) {
+    return res.status(400).json({
+      error: hasVariants(product) ? "Choose which variant to adjust" : "This product has no variants",
+    });
+  }
+  const target = variant || product;
+  if (target.stock + delta < 0) {
+    const name = variant ? variantName(product, variant) : product.name;
+    return res.status(409).json({ error: `Only ${target.stock} of "${name}" in stock` });
+  }
+
+  target.stock += delta;
+  Object.assign(product, stamp(user), applyVariants(product));
+  const movement = recordMovement(db, { product, variant, delta, reason, user, note });
+  db.write();
+  res.status(201).json({ product, movement });
+};
+
+module.exports = { REASONS, recordMovement, adjustStock };
@@ -0,0 +1,49 @@
+const fs = require("fs/promises");
+const path = require("path");
+
+// Uploaded files go through a storage adapter so the backing store can be
+// swapped (e.g. for an object store) without touching the upload handlers.
+// An adapter provides:
+//   save(key, buffer)  -> Promise<void>
+//   read(key)          -> Promise<Buffer | null>, null when the key is unknown
+//   remove(key)        -> Promise<void>, a no-op when the key is unknown
+
+// Keys are generated by the upload handler; anything else is rejected so a
+// key can never point outside the storage directory
+const isValidKey = (key) => /^[a-zA-Z0-9-]+\.(jpg|png|webp|gif)$/.test(key);
+
+const createLocalStorage = (dir) => ({
+  save: async (key, buffer) => {
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, key), buffer);
+  },
+  read: async (key) => {
+    try {
+      return await fs.readFile(path.join(dir, key));
+    } catch (error) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  },
+  remove: async (key) => {
+    await fs.rm(path.join(dir, key), { force: true });
+  },
+});
+
+const ADAPTERS = {
+  local: () => createLocalStorage(process.env.UPLOAD_DIR || path.join(process.cwd(), "uploads")),
+};
+
+let storage = null;
+
+// The adapter named by UPLOAD_STORAGE, "local" by default
+const getStorage = () => {
+  if (!storage) {
+    const name = process.env.UPLOAD_STORAGE || "local";
+    if (!ADAPTERS[name]) throw new Error(`Unknown upload storage "${name}"`);
+    storage = ADAPTERS[name]();
+  }
+  return storage;
+};
+
+module.exports = { isValidKey, createLocalStorage, getStorage };
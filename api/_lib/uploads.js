@@ -0,0 +1,93 @@
+const crypto = require("crypto");
+const sharp = require("sharp");
+const { readBody } = require("./http");
+const { isValidKey } = require("./storage");
+
+// Keep in sync with src/utils/uploads.ts
+const MAX_UPLOAD_BYTES = 3 * 1024 * 1024; // Base64 adds a third, keeping requests under 4.5 MB
+const THUMBNAIL_SIZE = 320;
+
+const IMAGE_TYPES = {
+  "image/jpeg": { extension: "jpg", signature: [0xff, 0xd8, 0xff] },
+  "image/png": { extension: "png", signature: [0x89, 0x50, 0x4e, 0x47] },
+  "image/gif": { extension: "gif", signature: [0x47, 0x49, 0x46, 0x38] },
+  "image/webp": { extension: "webp", signature: [0x52, 0x49, 0x46, 0x46] }, // "RIFF", checked further below
+};
+
+const CONTENT_TYPES = Object.fromEntries(
+  Object.entries(IMAGE_TYPES).map(([type, { extension }]) => [extension, type])
+);
+
+// The type the file's bytes say it is, regardless of what the client claimed
+const sniffType = (buffer) =>
+  Object.keys(IMAGE_TYPES).find((type) => {
+    const { signature } = IMAGE_TYPES[type];
+    const matches = signature.every((byte, i) => buffer[i] === byte);
+    return type === "image/webp" ? matches && buffer.toString("ascii", 8, 12) === "WEBP" : matches;
+  });
+
+// Absolute URL the file is served from by this API
+const publicUrl = (req, key) => {
+  const protocol = req.headers["x-forwarded-proto"] || "http";
+  return `${protocol}://${req.headers.host}/uploads/${key}`;
+};
+
+// POST /uploads with { fileName, contentType, data } where data is base64.
+// Stores the image and a WebP thumbnail, and responds with both URLs.
+const uploadImage = async (storage, req, res) => {
+  const { contentType, data } = await readBody(req);
+  if (!IMAGE_TYPES[contentType]) {
+    return res.status(400).json({ error: "Images must be JPEG, PNG, GIF or WebP" });
+  }
+  if (typeof data !== "string" || data === "") {
+    return res.status(400).json({ error: "No image data was sent" });
+  }
+
+  const buffer = Buffer.from(data, "base64");
+  if (buffer.length > MAX_UPLOAD_BYTES) {
+    return res.status(413).json({ error: `Images must be ${MAX_UPLOAD_BYTES / 1024 / 1024} MB or smaller` });
+  }
+  if (sniffType(buffer) !== contentType) {
+    return res.status(400).json({ error: "The file contents do not match its image type" });
+  }
+
+  let metadata;
+  let thumbnail;
+  try {
+    metadata = await sharp(buffer).metadata();
+    thumbnail = await sharp(buffer)
+      .rotate() // Honour EXIF orientation before it is stripped
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+      .webp()
+      .toBuffer();
+  } catch {
+    return res.status(400).json({ error: "The image could not be read" });
+  }
+
+  const id = crypto.randomUUID();
+  const key = `${id}.${IMAGE_TYPES[contentType].extension}`;
+  const thumbnailKey = `${id}-thumb.webp`;
+  await storage.save(key, buffer);
+  await storage.save(thumbnailKey, thumbnail);
+
+  res.status(201).json({
+    url: publicUrl(req, key),
+    thumbnailUrl: publicUrl(req, thumbnailKey),
+    contentType,
+    size: buffer.length,
+    width: metadata.width,
+    height: metadata.height,
+  });
+};
+
+// GET /uploads/:key
+const serveUpload = async (storage, req, res, key) => {
+  const buffer = isValidKey(key) ? await storage.read(key) : null;
+  if (!buffer) return res.status(404).json({ error: "File not found" });
+
+  res.setHeader("Content-Type", CONTENT_TYPES[key.split(".").pop()]);
+  res.setHeader("Cache-Control", "public, max-age=31536000, immutable"); // Keys are never reused
+  res.status(200).end(buffer);
+};
+
+module.exports = { MAX_UPLOAD_BYTES, uploadImage, serveUpload };
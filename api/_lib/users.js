@@ -0,0 +1,94 @@
+const { hashPassword, toPublicUser } = require("./auth");
+const { readBody } = require("./http");
+const { ROLES } = require("./permissions");
+const { validateUsername, validatePassword } = require("./validation");
+
+const isActiveAdmin = (user) => user.role === "admin" && user.active !== false;
+
+const isUsernameTaken = (db, username, exceptId) =>
+  Boolean(
+    db
+      .get("users")
+      .find((u) => u.username.toLowerCase() === username.toLowerCase() && u.id !== exceptId)
+      .value()
+  );
+
+// True if the change would leave the store without an active admin
+const removesLastAdmin = (db, user, changes) => {
+  if (!isActiveAdmin(user)) return false;
+  const stillAdmin = changes !== null && isActiveAdmin({ ...user, ...changes });
+  if (stillAdmin) return false;
+  return db.get("users").filter(isActiveAdmin).size().value() <= 1;
+};
+
+const createUser = async (db, req, res) => {
+  const { username, password, role = "user" } = await readBody(req);
+  const validationError = validateUsername(username) || validatePassword(password);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+  if (!ROLES.includes(role)) {
+    return res.status(400).json({ error: `Role must be one of: ${ROLES.join(", ")}` });
+  }
+  if (isUsernameTaken(db, username)) {
+    return res.status(409).json({ error: "Username is already taken" });
+  }
+
+  const user = db
+    .get("users")
+    .insert({ username, role, active: true, passwordHash: hashPassword(password) })
+    .write();
+  res.status(201).json(toPublicUser(user));
+};
+
+// Accepts role, active and password; the password is stored hashed
+const updateUser = async (db, req, res, id) => {
+  const user = db.get("users").find({ id }).value();
+  if (!user) {
+    return res.status(404).json({ error: "User not found" });
+  }
+
+  const { role, active, password } = await readBody(req);
+  const changes = {};
+  if (role !== undefined) {
+    if (!ROLES.includes(role)) {
+      return res.status(400).json({ error: `Role must be one of: ${ROLES.join(", ")}` });
+    }
+    changes.role = role;
+  }
+  if (active !== undefined) {
+    if (typeof active !== "boolean") {
+      return res.status(400).json({ error: "Active must be true or false" });
+    }
+    changes.active = active;
+  }
+  if (password !== undefined) {
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return res.status(400).json({ error: passwordError });
+    }
+    changes.passwordHash = hashPassword(password);
+  }
+
+  if (removesLastAdmin(db, user, changes)) {
+    return res.status(409).json({ error: "The store must keep at least one active admin" });
+  }
+
+  const updated = db.get("users").find({ id }).assign(changes).write();
+  res.status(200).json(toPublicUser(updated));
+};
+
+const deleteUser = (db, req, res, id) => {
+  const user = db.get("users").find({ id }).value();
+  if (!user) {
+    return res.status(404).json({ error: "User not found" });
+  }
+  if (removesLastAdmin(db, user, null)) {
+    return res.status(409).json({ error: "The store must keep at least one active admin" });
+  }
+
+  db.get("users").remove({ id }).write();
+  res.status(200).json({});
+};
+
+module.exports = { createUser, updateUser, deleteUser, isUsernameTaken };
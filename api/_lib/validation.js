@@ -0,0 +1,24 @@
+// Keep in sync with src/utils/validation.ts
+
+const validateUsername = (username) => {
+  if (typeof username !== "string" || !/^[a-zA-Z0-9_.-]{3,20}$/.test(username)) {
+    return "Username must be 3-20 characters: letters, numbers, '.', '_' or '-'";
+  }
+  return null;
+};
+
+const validatePassword = (password) => {
+  if (typeof password !== "string" || password.length < 8) {
+    return "Password must be at least 8 characters long";
+  }
+  if (!/[a-zA-Z]/.test(password) || !/[0-9]/.test(password)) {
+    return "Password must contain at least one letter and one number";
+  }
+  return null;
+};
+
+// Server-only below
+
+const isValidReorderPoint = (value) => Number.isInteger(value) && value >= 0;
+
+module.exports = { validateUsername, validatePassword, isValidReorderPoint };
@@ -0,0 +1,116 @@
+const crypto = require("crypto");
+const { isValidReorderPoint } = require("./validation");
+
+// A product may define attributes (e.g. Size: S, M, L) and one variant per
+// combination it sells. Each variant has its own SKU, price and stock; the
+// product's stock is then their total and its price the lowest of them.
+// Keep in sync with src/utils/variants.ts
+
+const hasVariants = (product) => Array.isArray(product.variants) && product.variants.length > 0;
+
+// "M / Red", in attribute order. A variant removed along with its product's
+// attributes still gets its own values.
+const variantLabel = (product, variant) => {
+  const values = hasVariants(product)
+    ? product.attributes.map((a) => variant.options[a.name])
+    : Object.values(variant.options);
+  return values.join(" / ");
+};
+
+const variantName = (product, variant) => `${product.name} (${variantLabel(product, variant)})`;
+
+const findVariant = (product, variantId) => (product.variants || []).find((v) => v.id === variantId);
+
+const isNonEmptyString = (value) => typeof value === "string" && value.trim() !== "";
+
+// Returns an error message, or null when the attributes and variants are usable
+const validateVariants = (attributes, variants) => {
+  if (attributes === undefined && variants === undefined) return null;
+  if (!Array.isArray(attributes) || !Array.isArray(variants)) {
+    return "Attributes and variants must both be lists";
+  }
+  if (variants.length > 0 && attributes.length === 0) return "Variants need at least one attribute";
+
+  const names = new Set();
+  for (const attribute of attributes) {
+    if (!attribute || !isNonEmptyString(attribute.name)) return "Every attribute needs a name";
+    if (names.has(attribute.name.toLowerCase())) return `Attribute "${attribute.name}" is defined twice`;
+    names.add(attribute.name.toLowerCase());
+    const values = attribute.values;
+    if (!Array.isArray(values) || values.length === 0 || !values.every(isNonEmptyString)) {
+      return `Attribute "${attribute.name}" needs at least one value`;
+    }
+    if (new Set(values.map((v) => v.toLowerCase())).size !== values.length) {
+      return `Attribute "${attribute.name}" has a repeated value`;
+    }
+  }
+
+  const combinations = new Set();
+  const skus = new Set();
+  for (const variant of variants) {
+    if (!variant || typeof variant.options !== "object" || variant.options === null) {
+      return "Every variant needs its attribute values";
+    }
+    const missing = attributes.find((a) => !a.values.includes(variant.options[a.name]));
+    if (missing || Object.keys(variant.options).length !== attributes.length) {
+      return `Every variant needs exactly one ${attributes.map((a) => a.name).join(", ")} value`;
+    }
+    const combination = attributes.map((a) => variant.options[a.name]).join("\u0000");
+    if (combinations.has(combination)) {
+      return `There is more than one ${attributes.map((a) => variant.options[a.name]).join(" / ")} variant`;
+    }
+    combinations.add(combination);
+    if (!isNonEmptyString(variant.sku)) return "Every variant needs a SKU";
+    if (skus.has(variant.sku.toLowerCase())) return `SKU "${variant.sku}" is used by more than one variant`;
+    skus.add(variant.sku.toLowerCase());
+    if (typeof variant.price !== "number" || !(variant.price > 0)) {
+      return `Price for ${variant.sku} must be a number above 0`;
+    }
+    if (!Number.isInteger(variant.stock) || variant.stock < 0) {
+      return `Stock for ${variant.sku} must be a whole number of 0 or more`;
+    }
+    if (variant.reorderPoint !== undefined && !isValidReorderPoint(variant.reorderPoint)) {
+      return `Reorder point for ${variant.sku} must be a whole number of 0 or more`;
+    }
+  }
+  return null;
+};
+
+// Gives new variants an id and derives the product's stock and price from
+// its variants, in place. Products without variants are left alone.
+const applyVariants = (product) => {
+  if (!hasVariants(product)) {
+    delete product.attributes;
+    delete product.variants;
+    return product;
+  }
+  product.variants.forEach((variant) => {
+    if (!variant.id) variant.id = crypto.randomBytes(4).toString("hex");
+  });
+  product.stock = product.variants.reduce((acc, v) => acc + v.stock, 0);
+  product.price = Math.min(...product.variants.map((v) => v.price));
+  return product;
+};
+
+// Per-variant stock differences between two versions of a product. Variants
+// that were removed count as going to zero, new ones as coming from zero.
+const variantStockChanges = (before, after) => {
+  const ids = new Set([...(before.variants || []), ...(after.variants || [])].map((v) => v.id));
+  return [...ids]
+    .map((id) => {
+      const from = findVariant(before, id);
+      const to = findVariant(after, id);
+      return { variant: to || { ...from, stock: 0 }, delta: (to ? to.stock : 0) - (from ? from.stock : 0) };
+    })
+    .filter(({ delta }) => delta !== 0);
+};
+
+module.exports = {
+  hasVariants,
+  variantLabel,
+  variantName,
+  findVariant,
+  validateVariants,
+  applyVariants,
+  variantStockChanges,
+};
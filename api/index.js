@@ -1,18 +1,190 @@
 const jsonServer = require("json-server");
+const { toPublicUser } = require("./_lib/auth");
+const { createCategory, updateCategory, deleteCategory } = require("./_lib/categories");
+const { isRouterRoute } = require("./_lib/http");
+const { migrate } = require("./_lib/migrations");
+const { listCollection } = require("./_lib/query");
+const { listOrders, getOrder, createOrder, updateOrderStatus } = require("./_lib/orders");
+const {
+  listNotifications,
+  markRead,
+  markAllRead,
+  dismissNotification,
+  reportNotification,
+  getPreferences,
+  updatePreferences,
+} = require("./_lib/notifications");
+const {
+  createProduct,
+  updateProduct,
+  deleteProduct,
+  listTrash,
+  restoreProduct,
+  purgeProduct,
+  lookupProduct,
+} = require("./_lib/products");
+const { login, refresh, register, sessionUser, authorize } = require("./_lib/sessions");
+const { updateSettings } = require("./_lib/settings");
+const { adjustStock } = require("./_lib/stock");
+const { getStorage } = require("./_lib/storage");
+const { uploadImage, serveUpload } = require("./_lib/uploads");
+const { createUser, updateUser, deleteUser } = require("./_lib/users");
 const router = jsonServer.router("db.json");
 
-module.exports = (req, res) => {
+// Never send password hashes back, whoever is asking
+router.render = (req, res) => {
+  let data = res.locals.data;
+  if (req.path.startsWith("/users") && data) {
+    data = Array.isArray(data) ? data.map(toPublicUser) : toPublicUser(data);
+  }
+  res.jsonp(data);
+};
+
+// The active user behind the request's bearer token, or null
+const currentUser = (req) => sessionUser(router.db, req);
+
+module.exports = async (req, res) => {
   // Handle CORS for development and production
   res.setHeader("Access-Control-Allow-Origin", "*");
-  res.setHeader("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, PUT, PATCH, DELETE, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
 
   // Handle preflight OPTIONS request
   if (req.method === "OPTIONS") {
     return res.status(200).end();
   }
 
-  // Pass the request to json-server router
   router.db.setState(require("../db.json")); // Reload db.json on each request
+  migrate(router.db);
+
+  const { pathname, searchParams } = new URL(req.url, "http://localhost");
+  if (req.method === "POST" && pathname === "/auth/login") {
+    return login(router.db, req, res);
+  }
+  if (req.method === "POST" && pathname === "/auth/refresh") {
+    return refresh(router.db, req, res);
+  }
+  if (req.method === "POST" && pathname === "/auth/register") {
+    return register(router.db, req, res);
+  }
+  if (!authorize(router.db, req, res, pathname)) return;
+
+  // User writes need password hashing and the last-admin guard
+  const userMatch = pathname.match(/^\/users(?:\/([^/]+))?$/);
+  if (userMatch) {
+    const [, id] = userMatch;
+    if (req.method === "POST" && !id) return createUser(router.db, req, res);
+    if ((req.method === "PATCH" || req.method === "PUT") && id) {
+      return updateUser(router.db, req, res, id);
+    }
+    if (req.method === "DELETE" && id) return deleteUser(router.db, req, res, id);
+  }
+
+  // Orders are private to their owner, and placing one moves stock
+  const orderMatch = pathname.match(/^\/orders(?:\/([^/]+))?$/);
+  if (orderMatch) {
+    const [, id] = orderMatch;
+    const user = currentUser(req);
+    if (!user) return res.status(401).json({ error: "Please log in to view orders" });
+    if (req.method === "GET") {
+      return id ? getOrder(router.db, req, res, user, id) : listOrders(router.db, req, res, user);
+    }
+    if (req.method === "POST" && !id) return createOrder(router.db, req, res, user);
+    if (req.method === "PATCH" && id) return updateOrderStatus(router.db, req, res, currentUser(req), id);
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  // Notifications are filtered per user; read and dismissed state is per user too
+  const notificationMatch = pathname.match(/^\/notifications(?:\/([^/]+))?$/);
+  if (notificationMatch) {
+    const [, id] = notificationMatch;
+    const user = currentUser(req);
+    if (!user) return res.status(401).json({ error: "Please log in to view notifications" });
+    if (id === "preferences") {
+      if (req.method === "GET") return getPreferences(router.db, req, res, user);
+      if (req.method === "PUT") return updatePreferences(router.db, req, res, user);
+    } else if (id === "read-all") {
+      if (req.method === "POST") return markAllRead(router.db, req, res, user);
+    } else if (id) {
+      if (req.method === "PATCH") return markRead(router.db, req, res, user, id);
+      if (req.method === "DELETE") return dismissNotification(router.db, req, res, user, id);
+    } else {
+      if (req.method === "GET") return listNotifications(router.db, req, res, user);
+      if (req.method === "POST") return reportNotification(router.db, req, res, user);
+    }
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  // Product images are stored through the storage adapter, not in db.json
+  const uploadMatch = pathname.match(/^\/uploads(?:\/([^/]+))?$/);
+  if (uploadMatch) {
+    const [, key] = uploadMatch;
+    if (req.method === "POST" && !key) return uploadImage(getStorage(), req, res);
+    if (req.method === "GET" && key) return serveUpload(getStorage(), req, res, key);
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  // Stock only changes through the ledger; the ledger and audit log are read-only
+  const stockMatch = pathname.match(/^\/products\/([^/]+)\/stock$/);
+  if (stockMatch && req.method === "POST") {
+    return adjustStock(router.db, req, res, currentUser(req), stockMatch[1]);
+  }
+  const isLog = pathname.startsWith("/stockMovements") || pathname.startsWith("/auditLog");
+  if (isLog && req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  // Lists are searched, sorted and paged here, in the query string the client sends
+  const listMatch = pathname.match(/^\/(products|categories|stockMovements|auditLog)$/);
+  if (listMatch && req.method === "GET") {
+    return listCollection(router.db, req, res, listMatch[1]);
+  }
+
+  // Scanner lookups match a SKU or barcode exactly, including variants' codes
+  if (pathname === "/products/lookup" && req.method === "GET") {
+    return lookupProduct(router.db, req, res);
+  }
+  const productMatch = pathname.match(/^\/products(?:\/([^/]+))?$/);
+  if (productMatch) {
+    const [, id] = productMatch;
+    if (req.method === "POST" && !id) return createProduct(router.db, req, res, currentUser(req));
+    if ((req.method === "PATCH" || req.method === "PUT") && id) {
+      return updateProduct(router.db, req, res, currentUser(req), id);
+    }
+    if (req.method === "DELETE" && id) return deleteProduct(router.db, req, res, currentUser(req), id);
+  }
+
+  // Deleted products wait in the trash until restored or purged
+  const trashMatch = pathname.match(/^\/trash(?:\/([^/]+)(\/restore)?)?$/);
+  if (trashMatch) {
+    const [, id, restore] = trashMatch;
+    if (req.method === "GET" && !id) return listTrash(router.db, req, res);
+    if (req.method === "POST" && id && restore) return restoreProduct(router.db, req, res, currentUser(req), id);
+    if (req.method === "DELETE" && id && !restore) return purgeProduct(router.db, req, res, currentUser(req), id);
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  // Category writes enforce unique names, cascade renames to products and only
+  // delete empty categories
+  const categoryMatch = pathname.match(/^\/categories(?:\/([^/]+))?$/);
+  if (categoryMatch) {
+    const [, id] = categoryMatch;
+    if (req.method === "POST" && !id) return createCategory(router.db, req, res);
+    if ((req.method === "PATCH" || req.method === "PUT") && id) {
+      return updateCategory(router.db, req, res, currentUser(req), id);
+    }
+    if (req.method === "DELETE" && id) return deleteCategory(router.db, req, res, id);
+  }
+
+  // Settings are checked key by key before they are saved
+  if (pathname === "/settings" && req.method !== "GET" && req.method !== "HEAD") {
+    if (req.method === "PATCH") return updateSettings(router.db, req, res);
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  // Pass the remaining plain collection routes to json-server router
+  if (!isRouterRoute(pathname, searchParams)) {
+    return res.status(404).json({ error: "Not found" });
+  }
   router(req, res);
-};
\ No newline at end of file
+};
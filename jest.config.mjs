@@ -2,6 +2,7 @@
 export default {
     testEnvironment: 'jsdom',
     setupFilesAfterEnv: ['<rootDir>/src/setupTests.ts'],
+    testPathIgnorePatterns: ['/node_modules/', '/__tests__/helpers/'],
     moduleNameMapper: {
       '\\.(css|less|scss|sass)$': 'identity-obj-proxy',
     },
@@ -1,31 +1,97 @@
 import { BrowserRouter as Router, Route, Routes } from "react-router-dom";
 import { AuthProvider } from "./context/AuthContext";
+import { CartProvider } from "./context/CartContext";
+import { NotificationProvider } from "./context/NotificationContext";
 import PrivateRoute from "./components/PrivateRoute";
 import ProductList from "./components/ProductList";
+import ProductDetail from "./components/ProductDetail";
 import AdminDashboard from "./components/AdminDashboard";
 import Login from "./components/Login";
+import Signup from "./components/Signup";
+import UserManagement from "./components/UserManagement";
+import CategoryManagement from "./components/CategoryManagement";
+import AuditLog from "./components/AuditLog";
+import Trash from "./components/Trash";
+import Cart from "./components/Cart";
+import Orders from "./components/Orders";
 import Navbar from "./components/Navbar";
+import Forbidden from "./components/Forbidden";
 
 function App() {
   return (
     <AuthProvider>
-      <Router>
-        <Navbar />
-        <div className="container mx-auto p-4 mt-15">
-          <Routes>
-            <Route path="/" element={<ProductList />} />
-            <Route path="/login" element={<Login />} />
-            <Route
-              path="/admin"
-              element={
-                <PrivateRoute role="admin">
-                  <AdminDashboard />
-                </PrivateRoute>
-              }
-            />
-          </Routes>
-        </div>
-      </Router>
+      <NotificationProvider>
+        <CartProvider>
+          <Router>
+            <Navbar />
+            <div className="container mx-auto p-4 mt-15">
+              <Routes>
+                <Route path="/" element={<ProductList />} />
+                <Route path="/products/:id" element={<ProductDetail />} />
+                <Route path="/login" element={<Login />} />
+                <Route path="/signup" element={<Signup />} />
+                <Route path="/forbidden" element={<Forbidden />} />
+                <Route
+                  path="/cart"
+                  element={
+                    <PrivateRoute permission="cart:use">
+                      <Cart />
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/orders"
+                  element={
+                    <PrivateRoute permission="orders:view">
+                      <Orders />
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/admin"
+                  element={
+                    <PrivateRoute permission="reports:view">
+                      <AdminDashboard />
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/admin/users"
+                  element={
+                    <PrivateRoute permission="users:manage">
+                      <UserManagement />
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/admin/categories"
+                  element={
+                    <PrivateRoute permission="categories:manage">
+                      <CategoryManagement />
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/admin/audit"
+                  element={
+                    <PrivateRoute permission="audit:view">
+                      <AuditLog />
+                    </PrivateRoute>
+                  }
+                />
+                <Route
+                  path="/admin/trash"
+                  element={
+                    <PrivateRoute permission="products:delete">
+                      <Trash />
+                    </PrivateRoute>
+                  }
+                />
+              </Routes>
+            </div>
+          </Router>
+        </CartProvider>
+      </NotificationProvider>
     </AuthProvider>
   );
 }
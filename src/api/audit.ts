@@ -0,0 +1,6 @@
+import { apiClient, request } from "./client";
+import { AuditEntry } from "../types/audit";
+
+export const auditApi = {
+  list: () => request(apiClient.get<AuditEntry[]>("/auditLog", { params: { _sort: "-createdAt" } })),
+};
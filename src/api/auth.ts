@@ -0,0 +1,16 @@
+import { apiClient, request } from "./client";
+import { User } from "../types/user";
+
+export interface LoginResponse {
+  token: string;
+  user: User;
+}
+
+export const authApi = {
+  login: (username: string, password: string) =>
+    request(apiClient.post<LoginResponse>("/auth/login", { username, password })),
+  register: (username: string, password: string) =>
+    request(apiClient.post<LoginResponse>("/auth/register", { username, password })),
+  // Uses the current token from the Authorization header
+  refresh: () => request(apiClient.post<LoginResponse>("/auth/refresh")),
+};
@@ -0,0 +1,9 @@
+import { apiClient, request } from "./client";
+import { Category } from "../types/category";
+
+export const categoriesApi = {
+  list: () => request(apiClient.get<Category[]>("/categories", { params: { _sort: "position" } })),
+  create: (name: string) => request(apiClient.post<Category>("/categories", { name })),
+  update: (id: string, changes: Partial<Omit<Category, "id">>) =>
+    request(apiClient.patch<Category>(`/categories/${id}`, changes)),
+};
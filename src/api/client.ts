@@ -0,0 +1,54 @@
+import axios, { AxiosResponse } from "axios";
+import { API_BASE_URL } from "../config";
+import { getStoredToken } from "./tokenStorage";
+
+export const apiClient = axios.create({
+  baseURL: API_BASE_URL,
+  headers: { "Content-Type": "application/json" },
+});
+
+// The API rejects writes without a valid session token
+apiClient.interceptors.request.use((config) => {
+  const token = getStoredToken();
+  if (token) config.headers.Authorization = `Bearer ${token}`;
+  return config;
+});
+
+export interface ApiError {
+  status: number | null; // null when the request never got a response
+  message: string;
+}
+
+// Envelope json-server returns when a request has _page set
+export interface Page<T> {
+  first: number;
+  prev: number | null;
+  next: number | null;
+  last: number;
+  pages: number;
+  items: number; // Total matching records across all pages
+  data: T[];
+}
+
+export type ApiResult<T> = { ok: true; data: T } | { ok: false; error: ApiError };
+
+export const toApiError = (error: unknown): ApiError => {
+  if (axios.isAxiosError(error)) {
+    const body = error.response?.data as { error?: string; message?: string } | undefined;
+    return {
+      status: error.response?.status ?? null,
+      message: body?.error || body?.message || error.message,
+    };
+  }
+  return { status: null, message: error instanceof Error ? error.message : String(error) };
+};
+
+// Resolves an axios call into an ApiResult instead of throwing
+export const request = async <T>(call: Promise<AxiosResponse<T>>): Promise<ApiResult<T>> => {
+  try {
+    const response = await call;
+    return { ok: true, data: response.data };
+  } catch (error) {
+    return { ok: false, error: toApiError(error) };
+  }
+};
@@ -0,0 +1,16 @@
+import { apiClient, request } from "./client";
+import { AppNotification, NotificationPreferences } from "../types/notification";
+
+export const notificationsApi = {
+  // Newest first, only the ones meant for the current user
+  list: () => request(apiClient.get<AppNotification[]>("/notifications")),
+  markRead: (id: string, read = true) =>
+    request(apiClient.patch<AppNotification>(`/notifications/${id}`, { read })),
+  markAllRead: () => request(apiClient.post<object>("/notifications/read-all")),
+  dismiss: (id: string) => request(apiClient.delete<object>(`/notifications/${id}`)),
+  reportBulkUploadFailure: (message: string) =>
+    request(apiClient.post<AppNotification>("/notifications", { type: "bulk-upload-failed", message })),
+  getPreferences: () => request(apiClient.get<NotificationPreferences>("/notifications/preferences")),
+  updatePreferences: (preferences: NotificationPreferences) =>
+    request(apiClient.put<NotificationPreferences>("/notifications/preferences", preferences)),
+};
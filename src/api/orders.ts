@@ -0,0 +1,16 @@
+import { apiClient, request } from "./client";
+import { Order, OrderStatus } from "../types/order";
+
+export interface OrderLine {
+  productId: string;
+  variantId?: string; // Required for products with variants
+  quantity: number;
+}
+
+export const ordersApi = {
+  // Own orders for shoppers, every order for admins
+  list: () => request(apiClient.get<Order[]>("/orders")),
+  create: (items: OrderLine[]) => request(apiClient.post<Order>("/orders", { items })),
+  updateStatus: (id: string, status: OrderStatus) =>
+    request(apiClient.patch<Order>(`/orders/${id}`, { status })),
+};
@@ -0,0 +1,43 @@
+import { apiClient, Page, request } from "./client";
+import { NewProduct, Product, ProductVariant, TrashedProduct } from "../types/product";
+import { ProductFilters, ProductQuery, productQueryParams } from "../utils/productFilters";
+
+export type { ProductFilters, ProductQuery } from "../utils/productFilters";
+
+// An exact SKU or barcode match; variant is set when the code is a variant's
+export interface ProductLookup {
+  product: Product;
+  variant: ProductVariant | null;
+}
+
+// Edits to a saved product. Stock is left out: the API keeps saved stock and
+// only takes it for variants added in the edit, as their opening stock.
+// A null reorderPoint clears the product's own override.
+export type ProductChanges = Partial<Omit<NewProduct, "stock" | "reorderPoint" | "variants">> & {
+  reorderPoint?: number | null;
+  variants?: (Omit<ProductVariant, "stock"> & { stock?: number })[];
+};
+
+// A whole product for PUT, which replaces the saved one: optional fields left
+// out are cleared. Stock is kept as saved, as with ProductChanges.
+export type ProductReplacement = Omit<NewProduct, "stock" | "variants"> & Pick<ProductChanges, "variants">;
+
+export const productsApi = {
+  // Every matching product, unpaginated
+  list: ({ q, category, sort }: ProductFilters = {}) =>
+    request(apiClient.get<Product[]>("/products", { params: productQueryParams({ q, category, sort }) })),
+  query: (query: ProductQuery) =>
+    request(apiClient.get<Page<Product>>("/products", { params: productQueryParams(query) })),
+  // The products with these ids that still exist
+  listByIds: (ids: string[]) =>
+    request(apiClient.get<Product[]>("/products", { params: new URLSearchParams(ids.map((id) => ["id", id])) })),
+  lookup: (code: string) => request(apiClient.get<ProductLookup>("/products/lookup", { params: { code } })),
+  get: (id: string) => request(apiClient.get<Product>(`/products/${id}`)),
+  create: (product: NewProduct) => request(apiClient.post<Product>("/products", product)),
+  update: (id: string, product: ProductReplacement) =>
+    request(apiClient.put<Product>(`/products/${id}`, product)),
+  patch: (id: string, changes: ProductChanges) =>
+    request(apiClient.patch<Product>(`/products/${id}`, changes)),
+  // Moves the product to the trash; see trashApi
+  delete: (id: string) => request(apiClient.delete<TrashedProduct>(`/products/${id}`)),
+};
@@ -0,0 +1,7 @@
+import { apiClient, request } from "./client";
+import { Settings } from "../types/settings";
+
+export const settingsApi = {
+  get: () => request(apiClient.get<Settings>("/settings")),
+  update: (changes: Partial<Settings>) => request(apiClient.patch<Settings>("/settings", changes)),
+};
@@ -0,0 +1,16 @@
+import { apiClient, request } from "./client";
+import { Product } from "../types/product";
+import { StockAdjustment, StockMovement } from "../types/stock";
+
+export const stockApi = {
+  // Applies the change and records it in the ledger in one step
+  adjust: (productId: string, adjustment: StockAdjustment) =>
+    request(
+      apiClient.post<{ product: Product; movement: StockMovement }>(`/products/${productId}/stock`, adjustment)
+    ),
+  history: (productId: string) =>
+    request(
+      apiClient.get<StockMovement[]>("/stockMovements", { params: { productId, _sort: "-createdAt" } })
+    ),
+  list: () => request(apiClient.get<StockMovement[]>("/stockMovements", { params: { _sort: "createdAt" } })),
+};
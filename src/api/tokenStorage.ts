@@ -0,0 +1,20 @@
+const TOKEN_KEY = "token";
+
+export const getStoredToken = () => localStorage.getItem(TOKEN_KEY);
+
+export const storeToken = (token: string | null) => {
+  if (token) {
+    localStorage.setItem(TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(TOKEN_KEY);
+  }
+};
+
+// Fires when another tab logs in, refreshes or logs out
+export const onStoredTokenChange = (callback: (token: string | null) => void) => {
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key === TOKEN_KEY || e.key === null) callback(e.newValue);
+  };
+  window.addEventListener("storage", handleStorage);
+  return () => window.removeEventListener("storage", handleStorage);
+};
@@ -0,0 +1,9 @@
+import { apiClient, request } from "./client";
+import { Product, TrashedProduct } from "../types/product";
+
+// productsApi.delete moves a product here
+export const trashApi = {
+  list: () => request(apiClient.get<TrashedProduct[]>("/trash")),
+  restore: (id: string) => request(apiClient.post<Product>(`/trash/${id}/restore`)),
+  purge: (id: string) => request(apiClient.delete<object>(`/trash/${id}`)),
+};
@@ -0,0 +1,13 @@
+import { apiClient, request } from "./client";
+import { UploadedImage } from "../types/upload";
+import { readAsBase64 } from "../utils/uploads";
+
+export const uploadsApi = {
+  // Stores the image and a thumbnail, and returns URLs for both
+  image: async (file: File) => {
+    const data = await readAsBase64(file);
+    return request(
+      apiClient.post<UploadedImage>("/uploads", { fileName: file.name, contentType: file.type, data })
+    );
+  },
+};
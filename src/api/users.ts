@@ -0,0 +1,9 @@
+import { apiClient, request } from "./client";
+import { NewUser, User, UserChanges } from "../types/user";
+
+export const usersApi = {
+  list: () => request(apiClient.get<User[]>("/users")),
+  create: (user: NewUser) => request(apiClient.post<User>("/users", user)),
+  update: (id: string, changes: UserChanges) =>
+    request(apiClient.patch<User>(`/users/${id}`, changes)),
+};
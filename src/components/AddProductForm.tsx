@@ -1,53 +1,61 @@
 import { useState } from "react";
 import axios, { AxiosError } from "axios";
-import jsPDF from "jspdf";
 import toast from "react-hot-toast";
 import { 
   FaPlus, 
-  FaFileCsv, 
-  FaFilePdf, 
-  FaUpload, 
   FaMagic 
 } from "react-icons/fa"
-
-interface Product {
-  id: string;
-  name: string;
-  category: string;
-  price: number;
-  stock: number;
-  description: string;
-  url?: string;
-  updatedAt?: string; // Added for AdminDashboard compatibility
-}
+import { useCategories } from "../hooks/useCategories";
+import { useReorderPoints } from "../hooks/useReorderPoints";
+import { NewProduct } from "../types/product";
+import { barcodeError } from "../utils/barcode";
+import { parseReorderPoint } from "../utils/reorderPoint";
+import { applyVariants, hasVariants, validateVariants } from "../utils/variants";
+import ImageGalleryField from "./ImageGalleryField";
+import VariantsEditor from "./VariantsEditor";
 
 interface AddProductFormProps {
-  onAdd: (product: Omit<Product, "id">) => void;
+  onAdd: (product: NewProduct) => Promise<boolean>; // Resolves to whether it was saved; reports its own outcome
 }
 
 const AddProductForm: React.FC<AddProductFormProps> = ({ onAdd }) => {
-  const [product, setProduct] = useState<Omit<Product, "id">>({
+  const [product, setProduct] = useState<NewProduct>({
     name: "",
     category: "",
     price: 0,
     stock: 0,
     description: "",
-    url: "",
+    images: [],
   });
   const [isGenerating, setIsGenerating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const { activeCategories } = useCategories();
+  const { reorderPointFor } = useReorderPoints();
 
   const HUGGINGFACE_API_KEY = import.meta.env.VITE_API_KEY; // Vite env variable
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // With variants, price and stock come from the variant rows
+  const withVariants = hasVariants(product);
+  const derived = applyVariants(product);
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!product.name || !product.category || product.price <= 0 || product.stock < 0) {
+    if (!product.name || !product.category || derived.price <= 0 || derived.stock < 0) {
       toast.error("Please fill all required fields with valid values!");
       return;
     }
-    const newProduct = { ...product, updatedAt: new Date().toISOString() };
-    onAdd(newProduct);
-    setProduct({ name: "", category: "", price: 0, stock: 0, description: "", url: "" });
-    toast.success("Product added successfully!");
+    const codeError =
+      barcodeError(product.barcode?.trim() ?? "") ||
+      (withVariants && validateVariants(product.attributes ?? [], product.variants ?? []));
+    if (codeError) {
+      toast.error(codeError);
+      return;
+    }
+    setIsSaving(true);
+    const saved = await onAdd(derived);
+    setIsSaving(false);
+    // Keep what was entered when the save fails, so it can be fixed and resubmitted
+    if (saved) setProduct({ name: "", category: "", price: 0, stock: 0, description: "", images: [] });
   };
 
   const generateDescription = async () => {
@@ -103,105 +111,6 @@ const AddProductForm: React.FC<AddProductFormProps> = ({ onAdd }) => {
     }
   };
 
-  const exportToCSV = async () => {
-    try {
-      const response = await axios.get("https://react-store-2wpq.onrender.com/products");
-      const products: Product[] = response.data;
-      const headers = ["ID,Name,Category,Price,Stock,Description,URL,UpdatedAt"];
-      const rows = products.map((p) =>
-        `"${p.id}","${p.name}","${p.category}","${p.price}","${p.stock}","${p.description.replace(/"/g, '""')}","${p.url || ""}","${p.updatedAt || ""}"`
-      );
-      const csvContent = [...headers, ...rows].join("\n");
-      const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-      const link = document.createElement("a");
-      link.href = URL.createObjectURL(blob);
-      link.download = "products.csv";
-      link.click();
-      toast.success("Products exported to CSV!");
-    } catch (error) {
-      toast.error("Failed to export to CSV!");
-      console.error("Export to CSV error:", error);
-    }
-  };
-
-  const exportToPDF = async () => {
-    try {
-      const response = await axios.get("https://react-store-2wpq.onrender.com/products");
-      const products: Product[] = response.data;
-      const doc = new jsPDF();
-      doc.setFontSize(16);
-      doc.text("Product List", 20, 20);
-      doc.setFontSize(12);
-      let y = 30;
-      console.log("Products before export:", products);
-      products.forEach((p) => {
-        const text = `${p.id} | ${p.name} | ${p.category} | ₹${p.price.toFixed(2)} | Stock: ${p.stock} | ${p.description} | ${p.url || "No URL"} | Updated: ${p.updatedAt || "N/A"}`;
-        doc.text(text, 20, y, { maxWidth: 170 });
-        y += 10;
-        if (y > 270) {
-          doc.addPage();
-          y = 20;
-        }
-      });
-      doc.save("products.pdf");
-      toast.success("Products exported to PDF!");
-    } catch (error) {
-      toast.error("Failed to export to PDF!");
-      console.error("Export to PDF error:", error);
-    }
-  };
-
-  const handleBulkUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = async (event) => {
-      const text = event.target?.result as string;
-      const lines = text.split("\n").slice(1);
-      const newProducts = lines
-        .map((line) => {
-          const [id, name, category, price, stock, description, url, updatedAt] = line.split(",");
-          if (!id || !name || !category || !price || !stock) return null;
-          return {
-            id,
-            name,
-            category,
-            price: Number(price),
-            stock: Number(stock),
-            description: description || "",
-            url: url || undefined,
-            updatedAt: updatedAt || new Date().toISOString(),
-          } as Product;
-        })
-        .filter((p) => p !== null) as Product[];
-
-      let successCount = 0;
-      for (const product of newProducts) {
-        try {
-          await axios.post("https://react-store-2wpq.onrender.com/products", product);
-          onAdd({
-            name: product.name,
-            category: product.category,
-            price: product.price,
-            stock: product.stock,
-            description: product.description,
-            url: product.url,
-            updatedAt: product.updatedAt,
-          });
-          successCount++;
-        } catch (error) {
-          console.error(`Failed to upload product ${product.id}:`, error);
-          toast.error(`Failed to upload "${product.name}"`);
-        }
-      }
-      if (successCount > 0) {
-        toast.success(`${successCount} product(s) uploaded successfully!`);
-      }
-    };
-    reader.readAsText(file);
-  };
-
   return (
     <div className="mb-8 bg-white p-6 rounded-xl shadow-md hover:shadow-lg transition-shadow duration-300 max-w-4xl mx-auto">
     <h2 className="text-2xl font-bold text-gray-800 mb-6 border-b pb-2">Add New Product</h2>
@@ -229,37 +138,77 @@ const AddProductForm: React.FC<AddProductFormProps> = ({ onAdd }) => {
             required
           >
             <option value="">Select Category</option>
-            <option value="Electronics">Electronics</option>
-            <option value="Clothing">Clothing</option>
-            <option value="Books">Books</option>
+            {activeCategories.map((category) => (
+              <option key={category.id} value={category.name}>{category.name}</option>
+            ))}
           </select>
         </div>
 
+        <div className="space-y-2">
+          <label className="block text-sm font-semibold text-gray-700">SKU</label>
+          <input
+            type="text"
+            value={product.sku ?? ""}
+            onChange={(e) => setProduct({ ...product, sku: e.target.value })}
+            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-200"
+            placeholder="e.g. TSHIRT-001"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-sm font-semibold text-gray-700">Barcode</label>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={product.barcode ?? ""}
+            onChange={(e) => setProduct({ ...product, barcode: e.target.value })}
+            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-200"
+            placeholder="EAN-13, EAN-8 or UPC-A"
+          />
+        </div>
+
         <div className="space-y-2">
           <label className="block text-sm font-semibold text-gray-700">Price (₹) *</label>
           <input
             type="number"
-            value={product.price || ""}
+            value={derived.price || ""}
             onChange={(e) => setProduct({ ...product, price: Number(e.target.value) })}
-            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-200"
+            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-200 disabled:bg-gray-100"
             min="0"
             step="0.01"
             placeholder="Enter price"
+            disabled={withVariants}
             required
           />
+          {withVariants && <p className="text-xs text-gray-500">Lowest variant price.</p>}
         </div>
 
         <div className="space-y-2">
           <label className="block text-sm font-semibold text-gray-700">Stock *</label>
           <input
             type="number"
-            value={product.stock || ""}
+            value={derived.stock || ""}
             onChange={(e) => setProduct({ ...product, stock: Number(e.target.value) })}
-            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-200"
+            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-200 disabled:bg-gray-100"
             min="0"
             placeholder="Enter stock quantity"
+            disabled={withVariants}
             required
           />
+          {withVariants && <p className="text-xs text-gray-500">Total across all variants.</p>}
+        </div>
+
+        <div className="space-y-2">
+          <label className="block text-sm font-semibold text-gray-700">Reorder Point</label>
+          <input
+            type="number"
+            value={product.reorderPoint ?? ""}
+            onChange={(e) => setProduct({ ...product, reorderPoint: parseReorderPoint(e.target.value) })}
+            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-200"
+            min="0"
+            step="1"
+            placeholder={`Default (${reorderPointFor({ ...product, reorderPoint: undefined })})`}
+          />
         </div>
 
         <div className="md:col-span-2 space-y-2">
@@ -309,52 +258,35 @@ const AddProductForm: React.FC<AddProductFormProps> = ({ onAdd }) => {
         </div>
 
         <div className="md:col-span-2 space-y-2">
-          <label className="block text-sm font-semibold text-gray-700">Product URL (optional)</label>
-          <input
-            type="url"
-            value={product.url || ""}
-            onChange={(e) => setProduct({ ...product, url: e.target.value })}
-            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-200"
-            placeholder="https://example.com/product"
+          <label className="block text-sm font-semibold text-gray-700">Images (optional)</label>
+          <ImageGalleryField
+            images={product.images ?? []}
+            onChange={(images) => setProduct({ ...product, images })}
+          />
+        </div>
+
+        <div className="md:col-span-2 space-y-2">
+          <label className="block text-sm font-semibold text-gray-700">Variants (optional)</label>
+          <VariantsEditor
+            productName={product.name}
+            basePrice={product.price}
+            attributes={product.attributes ?? []}
+            variants={product.variants ?? []}
+            defaultReorderPoint={reorderPointFor(product)}
+            onChange={(attributes, variants) => setProduct({ ...product, attributes, variants })}
           />
         </div>
       </div>
 
       <button
         type="submit"
-        className="w-full bg-indigo-600 text-white py-3 rounded-lg font-semibold hover:bg-indigo-700 transition-all duration-200 focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 flex items-center justify-center"
+        disabled={isSaving}
+        className="w-full bg-indigo-600 text-white py-3 rounded-lg font-semibold hover:bg-indigo-700 transition-all duration-200 focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 flex items-center justify-center disabled:opacity-50"
       >
         <FaPlus className="mr-2" />
-        Add Product
+        {isSaving ? "Adding..." : "Add Product"}
       </button>
     </form>
-
-    <div className="mt-6 flex flex-col sm:flex-row gap-4 justify-center">
-      <button
-        onClick={exportToCSV}
-        className="flex-1 bg-green-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-green-700 transition-all duration-200 flex items-center justify-center"
-      >
-        <FaFileCsv className="mr-2" />
-        Export to CSV
-      </button>
-      <button
-        onClick={exportToPDF}
-        className="flex-1 bg-blue-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-blue-700 transition-all duration-200 flex items-center justify-center"
-      >
-        <FaFilePdf className="mr-2" />
-        Export to PDF
-      </button>
-      <label className="flex-1 bg-purple-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-purple-700 transition-all duration-200 cursor-pointer text-center flex items-center justify-center">
-        <FaUpload className="mr-2" />
-        Bulk Upload CSV
-        <input
-          type="file"
-          accept=".csv"
-          className="hidden"
-          onChange={handleBulkUpload}
-        />
-      </label>
-    </div>
   </div>
   );
 };
@@ -0,0 +1,164 @@
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { stockApi } from "../api/stock";
+import { useNotifications } from "../context/useNotifications";
+import { Product } from "../types/product";
+import { STOCK_REASON_LABELS, StockReason } from "../types/stock";
+import { findVariant, hasVariants, variantLabel, variantName } from "../utils/variants";
+
+interface AdjustStockModalProps {
+  product: Product;
+  variantId?: string; // Preselected variant, e.g. from a scanned code
+  onClose: () => void;
+  onSaved: (product: Product) => void;
+}
+
+// Reasons that normally take stock away; the direction can still be flipped
+const OUTFLOW_REASONS: StockReason[] = ["sale", "damage"];
+
+const AdjustStockModal: React.FC<AdjustStockModalProps> = ({ product, variantId: initialVariantId, onClose, onSaved }) => {
+  const [reason, setReason] = useState<StockReason>("restock");
+  const [direction, setDirection] = useState<1 | -1>(1);
+  const [quantity, setQuantity] = useState(1);
+  const [note, setNote] = useState("");
+  const [variantId, setVariantId] = useState(initialVariantId ?? product.variants?.[0]?.id ?? "");
+  const { refresh } = useNotifications();
+
+  // Products sold in variants are adjusted one variant at a time
+  const variant = hasVariants(product) ? findVariant(product, variantId) : undefined;
+  const name = variant ? variantName(product, variant) : product.name;
+  const currentStock = variant ? variant.stock : product.stock;
+  const delta = direction * quantity;
+  const newStock = currentStock + delta;
+
+  const changeReason = (value: StockReason) => {
+    setReason(value);
+    setDirection(OUTFLOW_REASONS.includes(value) ? -1 : 1);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      toast.error("Quantity must be a whole number of at least 1");
+      return;
+    }
+    if (newStock < 0) {
+      toast.error(`Only ${currentStock} of "${name}" in stock`);
+      return;
+    }
+    const result = await stockApi.adjust(product.id, { delta, reason, note: note.trim(), variantId: variant?.id });
+    if (!result.ok) {
+      toast.error(`Failed to adjust stock: ${result.error.message}`);
+      console.error("Adjust stock error:", result.error);
+      return;
+    }
+    const saved = result.data.product;
+    const savedVariant = variant && findVariant(saved, variant.id);
+    toast.success(
+      savedVariant
+        ? `Stock for "${variantName(saved, savedVariant)}" is now ${savedVariant.stock}`
+        : `Stock for "${saved.name}" is now ${saved.stock}`
+    );
+    refresh(); // Picks up a low- or out-of-stock alert straight away
+    onSaved(saved);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-60 z-50"
+      onClick={(e) => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <div className="bg-white p-8 rounded-xl shadow-2xl w-full max-w-md">
+        <h2 className="text-2xl font-bold text-gray-800 mb-2">Adjust Stock</h2>
+        <p className="text-gray-600 mb-6">
+          {name} · currently {currentStock} in stock
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {hasVariants(product) && (
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Variant</label>
+              <select
+                value={variantId}
+                onChange={(e) => setVariantId(e.target.value)}
+                className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
+              >
+                {product.variants!.map((v) => (
+                  <option key={v.id} value={v.id}>
+                    {variantLabel(product.attributes, v)} ({v.sku}) · {v.stock} in stock
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Reason</label>
+            <select
+              value={reason}
+              onChange={(e) => changeReason(e.target.value as StockReason)}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
+            >
+              {(Object.keys(STOCK_REASON_LABELS) as StockReason[]).map((value) => (
+                <option key={value} value={value}>{STOCK_REASON_LABELS[value]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Direction</label>
+              <select
+                value={direction}
+                onChange={(e) => setDirection(Number(e.target.value) as 1 | -1)}
+                className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
+              >
+                <option value={1}>Add</option>
+                <option value={-1}>Remove</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Quantity</label>
+              <input
+                type="number"
+                value={quantity}
+                onChange={(e) => setQuantity(Number(e.target.value))}
+                className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
+                min="1"
+                step="1"
+                required
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Note (optional)</label>
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
+              placeholder="e.g. Supplier invoice #1042"
+            />
+          </div>
+          <p className={`font-semibold ${newStock < 0 ? "text-red-600" : "text-gray-800"}`}>
+            New stock: {newStock}
+          </p>
+          <div className="mt-6 flex gap-4 justify-end">
+            <button
+              type="submit"
+              className="bg-blue-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-blue-700 hover:scale-105 transition-all duration-200"
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              className="bg-gray-500 text-white px-6 py-2 rounded-lg font-semibold hover:bg-gray-600 hover:scale-105 transition-all duration-200"
+              onClick={onClose}
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AdjustStockModal;
@@ -1,55 +1,65 @@
 import { useEffect, useState } from "react";
-import axios from "axios";
 import {
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
   PieChart, Pie, Cell
 } from "recharts";
 import toast from "react-hot-toast";
-
-interface Product {
-  id: string;
-  name: string;
-  category: string;
-  price: number;
-  stock: number;
-  description: string;
-  url?: string;
-  updatedAt?: string; // Optional field for recent updates
-}
+import { productsApi } from "../api/products";
+import { stockApi } from "../api/stock";
+import { useCategories } from "../hooks/useCategories";
+import { useReorderPoints } from "../hooks/useReorderPoints";
+import { categoryColor } from "../utils/categoryColors";
+import { formatPrice } from "../utils/format";
+import { inventoryValue } from "../utils/inventory";
+import { hasVariants, variantName } from "../utils/variants";
+import { Product } from "../types/product";
+import { StockMovement } from "../types/stock";
 
 const COLORS = ["#ef4444", "#f97316", "#10b981", "#3b82f6"]; // Red, Orange, Green, Blue
+const FLOW_DAYS = 30;
+
+const dayKey = (date: Date) => date.toISOString().slice(0, 10);
 
 const AdminDashboard = () => {
   const [products, setProducts] = useState<Product[]>([]);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const { categories } = useCategories();
+  const { isLow, lowVariants } = useReorderPoints();
 
   useEffect(() => {
     const fetchProducts = async () => {
-      try {
-        const response = await axios.get("https://react-store-2wpq.onrender.com/products");
-        // Mock updatedAt if not present in your data
-        const fetchedProducts = response.data.map((p: Product) => ({
-          ...p,
-          updatedAt: p.updatedAt || new Date().toISOString(), // Mock date
-        }));
-        setProducts(fetchedProducts);
-      } catch (error) {
-        toast.error("Failed to fetch products!");
-        console.error("Fetch products error:", error);
+      const result = await productsApi.list();
+      if (!result.ok) {
+        toast.error(`Failed to fetch products: ${result.error.message}`);
+        console.error("Fetch products error:", result.error);
+        return;
       }
+      setProducts(result.data);
+    };
+    const fetchMovements = async () => {
+      const result = await stockApi.list();
+      if (!result.ok) {
+        toast.error(`Failed to fetch stock movements: ${result.error.message}`);
+        console.error("Fetch stock movements error:", result.error);
+        return;
+      }
+      setMovements(result.data);
     };
     fetchProducts();
+    fetchMovements();
   }, []);
 
   // Metrics
   const totalProducts = products.length;
-  const lowStockCount = products.filter((p) => p.stock < 10).length;
-  const totalValue = products.reduce((acc, p) => acc + p.price * p.stock, 0).toFixed(2);
+  const lowStockCount = products.filter(isLow).length;
+  const totalValue = inventoryValue(products);
 
-  // Stock Distribution
+  // Stock Distribution, bucketed against each product's reorder point
+  const outOfStockCount = products.filter((p) => p.stock === 0).length;
   const stockDistribution = [
-    { name: "0-10", value: products.filter((p) => p.stock <= 10).length },
-    { name: "11-50", value: products.filter((p) => p.stock > 10 && p.stock <= 50).length },
-    { name: "51+", value: products.filter((p) => p.stock > 50).length },
+    { name: "Out of stock", value: outOfStockCount, color: COLORS[0] },
+    { name: "Low stock", value: lowStockCount - outOfStockCount, color: COLORS[1] },
+    { name: "In stock", value: products.length - lowStockCount, color: COLORS[2] },
   ].filter((d) => d.value > 0);
 
   // Category-wise Breakdown
@@ -57,19 +67,50 @@ const AdminDashboard = () => {
     acc[p.category] = (acc[p.category] || 0) + 1;
     return acc;
   }, {} as Record<string, number>);
-  const categoryChartData = Object.entries(categoryBreakdown).map(([name, value]) => ({
-    name,
-    value,
-  }));
+  // Known categories first, in their configured order, then any stray names
+  const categoryNames = [
+    ...categories.map((c) => c.name),
+    ...Object.keys(categoryBreakdown).filter((name) => !categories.some((c) => c.name === name)),
+  ];
+  const categoryChartData = categoryNames
+    .map((name, index) => ({ name, value: categoryBreakdown[name] || 0, color: categoryColor(index) }))
+    .filter((d) => d.value > 0);
+
+  // Stock inflow/outflow per day over the last FLOW_DAYS days, from the ledger
+  const flowByDay = new Map<string, { date: string; inflow: number; outflow: number }>();
+  for (let i = FLOW_DAYS - 1; i >= 0; i--) {
+    const date = dayKey(new Date(Date.now() - i * 24 * 60 * 60 * 1000));
+    flowByDay.set(date, { date, inflow: 0, outflow: 0 });
+  }
+  movements.forEach((m) => {
+    const day = flowByDay.get(dayKey(new Date(m.createdAt)));
+    if (!day) return;
+    if (m.delta > 0) day.inflow += m.delta;
+    else day.outflow += -m.delta;
+  });
+  const stockFlowData = [...flowByDay.values()];
+  const hasStockFlow = stockFlowData.some((d) => d.inflow > 0 || d.outflow > 0);
 
-  // Low Stock Products
+  // Low Stock Products, listing each low variant on its own
   const lowStockProducts = products
-    .filter((p) => p.stock < 10)
+    .filter(isLow)
+    .flatMap((p) =>
+      hasVariants(p)
+        ? lowVariants(p).map((v) => ({
+            key: `${p.id}:${v.id}`,
+            name: variantName(p, v),
+            category: p.category,
+            stock: v.stock,
+          }))
+        : [{ key: p.id, name: p.name, category: p.category, stock: p.stock }]
+    )
     .sort((a, b) => a.stock - b.stock)
     .slice(0, 5);
 
   // Recent Product Updates
+  // Products written before timestamps were stamped have no updatedAt; leave them out
   const recentUpdates = products
+    .filter((p) => p.updatedAt)
     .sort((a, b) => new Date(b.updatedAt!).getTime() - new Date(a.updatedAt!).getTime())
     .slice(0, 5);
 
@@ -93,7 +134,7 @@ const AdminDashboard = () => {
           </div>
           <div className="bg-white p-6 rounded-xl shadow-md hover:shadow-lg transition-all duration-300">
             <h2 className="text-lg font-semibold text-gray-700 mb-2">Total Inventory Value</h2>
-            <p className="text-2xl font-bold text-green-600">₹{totalValue}</p>
+            <p className="text-2xl font-bold text-green-600">{formatPrice(totalValue)}</p>
           </div>
         </div>
 
@@ -115,8 +156,8 @@ const AdminDashboard = () => {
                     fill="#8884d8"
                     label={({ name, percent }) => `${name} (${(percent * 100).toFixed(0)}%)`}
                   >
-                    {stockDistribution.map((_, index) => (
-                      <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                    {stockDistribution.map((entry) => (
+                      <Cell key={`cell-${entry.name}`} fill={entry.color} />
                     ))}
                   </Pie>
                   <Tooltip
@@ -143,7 +184,11 @@ const AdminDashboard = () => {
                     contentStyle={{ backgroundColor: "#fff", borderRadius: "8px", border: "1px solid #e5e7eb" }}
                   />
                   <Legend />
-                  <Bar dataKey="value" fill="#3b82f6" name="Products" barSize={30} />
+                  <Bar dataKey="value" fill="#3b82f6" name="Products" barSize={30}>
+                    {categoryChartData.map((entry) => (
+                      <Cell key={`bar-${entry.name}`} fill={entry.color} />
+                    ))}
+                  </Bar>
                 </BarChart>
               </ResponsiveContainer>
             ) : (
@@ -151,13 +196,35 @@ const AdminDashboard = () => {
             )}
           </div>
 
+          {/* Stock Flow (Bar Chart) */}
+          <div className="bg-white p-6 rounded-xl shadow-md lg:col-span-2">
+            <h2 className="text-xl font-semibold text-gray-800 mb-4">Stock Inflow / Outflow (Last {FLOW_DAYS} Days)</h2>
+            {hasStockFlow ? (
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={stockFlowData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="date" stroke="#6b7280" tickFormatter={(d: string) => d.slice(5)} />
+                  <YAxis stroke="#6b7280" allowDecimals={false} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: "#fff", borderRadius: "8px", border: "1px solid #e5e7eb" }}
+                  />
+                  <Legend />
+                  <Bar dataKey="inflow" fill="#10b981" name="Inflow" />
+                  <Bar dataKey="outflow" fill="#ef4444" name="Outflow" />
+                </BarChart>
+              </ResponsiveContainer>
+            ) : (
+              <p className="text-gray-500 text-center py-4">No stock movements in this period</p>
+            )}
+          </div>
+
           {/* Low Stock Products */}
           <div className="bg-white p-6 rounded-xl shadow-md">
             <h2 className="text-xl font-semibold text-gray-800 mb-4">Low Stock Products (Top 5)</h2>
             {lowStockProducts.length > 0 ? (
               <ul className="space-y-4">
                 {lowStockProducts.map((product) => (
-                  <li key={product.id} className="flex justify-between items-center border-b pb-2">
+                  <li key={product.key} className="flex justify-between items-center border-b pb-2">
                     <div>
                       <p className="text-sm font-semibold text-gray-800">{product.name}</p>
                       <p className="text-xs text-gray-600">{product.category}</p>
@@ -184,6 +251,7 @@ const AdminDashboard = () => {
                       <th className="py-3 px-4">Price</th>
                       <th className="py-3 px-4">Stock</th>
                       <th className="py-3 px-4">Last Updated</th>
+                      <th className="py-3 px-4">By</th>
                     </tr>
                   </thead>
                   <tbody>
@@ -191,11 +259,12 @@ const AdminDashboard = () => {
                       <tr key={product.id} className="border-b hover:bg-gray-50 transition-colors duration-200">
                         <td className="py-3 px-4 text-sm text-gray-800">{product.name}</td>
                         <td className="py-3 px-4 text-sm text-gray-600">{product.category}</td>
-                        <td className="py-3 px-4 text-sm text-green-600">₹{product.price.toFixed(2)}</td>
+                        <td className="py-3 px-4 text-sm text-green-600">{formatPrice(product.price)}</td>
                         <td className="py-3 px-4 text-sm text-gray-700">{product.stock}</td>
                         <td className="py-3 px-4 text-sm text-gray-500">
                           {new Date(product.updatedAt!).toLocaleDateString()}
                         </td>
+                        <td className="py-3 px-4 text-sm text-gray-500">{product.updatedBy || "—"}</td>
                       </tr>
                     ))}
                   </tbody>
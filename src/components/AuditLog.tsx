@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { auditApi } from "../api/audit";
+import { AuditAction, AuditEntry } from "../types/audit";
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  update: "text-blue-600",
+  delete: "text-orange-600",
+  restore: "text-green-600",
+  purge: "text-red-600",
+};
+
+const formatValue = (value: unknown) =>
+  value === null || value === "" ? "—" : typeof value === "object" ? JSON.stringify(value) : String(value);
+
+const AuditLog = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [username, setUsername] = useState("");
+  const [productId, setProductId] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  useEffect(() => {
+    const fetchEntries = async () => {
+      const result = await auditApi.list();
+      if (!result.ok) {
+        toast.error(`Failed to fetch audit log: ${result.error.message}`);
+        console.error("Fetch audit log error:", result.error);
+        return;
+      }
+      setEntries(result.data);
+    };
+    fetchEntries();
+  }, []);
+
+  // Filter options come from the log itself, so deleted products stay selectable
+  const usernames = [...new Set(entries.map((e) => e.username).filter((u): u is string => Boolean(u)))].sort();
+  const products = [...new Map(entries.map((e) => [e.entityId, e.entityName])).entries()].sort((a, b) =>
+    a[1].localeCompare(b[1])
+  );
+
+  // Dates are inclusive, in local time
+  const fromTime = from ? new Date(`${from}T00:00:00`).getTime() : -Infinity;
+  const toTime = to ? new Date(`${to}T23:59:59.999`).getTime() : Infinity;
+  const visibleEntries = entries.filter((e) => {
+    const time = new Date(e.createdAt).getTime();
+    return (
+      (!username || e.username === username) &&
+      (!productId || e.entityId === productId) &&
+      time >= fromTime &&
+      time <= toTime
+    );
+  });
+
+  const filterClassName =
+    "w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200";
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-10 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <h1 className="text-3xl font-bold text-gray-800 mb-8">Audit Log</h1>
+
+        {/* Filters */}
+        <div className="mb-8 bg-white p-6 rounded-xl shadow-md grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">User</label>
+            <select value={username} onChange={(e) => setUsername(e.target.value)} className={filterClassName}>
+              <option value="">All Users</option>
+              {usernames.map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Product</label>
+            <select value={productId} onChange={(e) => setProductId(e.target.value)} className={filterClassName}>
+              <option value="">All Products</option>
+              {products.map(([id, name]) => (
+                <option key={id} value={id}>{name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">From</label>
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={filterClassName} />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">To</label>
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={filterClassName} />
+          </div>
+        </div>
+
+        {/* Entries */}
+        <div className="bg-white p-6 rounded-xl shadow-md">
+          {visibleEntries.length === 0 ? (
+            <p className="text-gray-500 text-center py-4">No audit entries found.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left">
+                <thead>
+                  <tr className="border-b text-sm font-semibold text-gray-700">
+                    <th className="py-3 px-4">Date</th>
+                    <th className="py-3 px-4">User</th>
+                    <th className="py-3 px-4">Action</th>
+                    <th className="py-3 px-4">Product</th>
+                    <th className="py-3 px-4">Changes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleEntries.map((entry) => (
+                    <tr key={entry.id} className="border-b align-top hover:bg-gray-50 transition-colors duration-200">
+                      <td className="py-3 px-4 text-sm text-gray-500 whitespace-nowrap">
+                        {new Date(entry.createdAt).toLocaleString()}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-800">{entry.username || "—"}</td>
+                      <td
+                        className={`py-3 px-4 text-sm font-semibold capitalize ${ACTION_STYLES[entry.action]}`}
+                      >
+                        {entry.action}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-800">{entry.entityName}</td>
+                      <td className="py-3 px-4 text-sm text-gray-600">
+                        {Object.keys(entry.changes).length === 0 ? (
+                          "No field changes"
+                        ) : (
+                          <ul className="space-y-1">
+                            {Object.entries(entry.changes).map(([field, change]) => (
+                              <li key={field}>
+                                <span className="font-semibold text-gray-700">{field}:</span>{" "}
+                                <span className="line-through text-red-600">{formatValue(change.from)}</span>{" "}
+                                → <span className="text-green-600">{formatValue(change.to)}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -0,0 +1,50 @@
+import { barcodeBars, isValidBarcode } from "../utils/barcode";
+
+interface BarcodeProps {
+  value: string;
+  className?: string;
+}
+
+const QUIET_ZONE = 9; // Modules of white space either side, for scanners
+const BAR_HEIGHT = 50;
+const GUARD_EXTRA = 5;
+const TEXT_HEIGHT = 12;
+
+// EAN/UPC barcode as SVG, scaled by CSS. Invalid codes render nothing.
+const Barcode: React.FC<BarcodeProps> = ({ value, className }) => {
+  if (!isValidBarcode(value)) return null;
+  const { bars, width } = barcodeBars(value);
+  const totalWidth = width + QUIET_ZONE * 2;
+
+  return (
+    <svg
+      viewBox={`0 0 ${totalWidth} ${BAR_HEIGHT + GUARD_EXTRA + TEXT_HEIGHT}`}
+      className={className}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={`Barcode ${value}`}
+    >
+      <rect width="100%" height="100%" fill="white" />
+      {bars.map((bar) => (
+        <rect
+          key={bar.x}
+          x={QUIET_ZONE + bar.x}
+          width={bar.width}
+          height={bar.guard ? BAR_HEIGHT + GUARD_EXTRA : BAR_HEIGHT}
+          fill="black"
+        />
+      ))}
+      <text
+        x={totalWidth / 2}
+        y={BAR_HEIGHT + GUARD_EXTRA + TEXT_HEIGHT - 2}
+        textAnchor="middle"
+        fontSize="10"
+        fontFamily="monospace"
+      >
+        {value}
+      </text>
+    </svg>
+  );
+};
+
+export default Barcode;
@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import toast from "react-hot-toast";
+import { useCart } from "../context/useCart";
+import { productsApi } from "../api/products";
+import { ordersApi } from "../api/orders";
+import { formatPrice } from "../utils/format";
+import { thumbnailSrc } from "../utils/images";
+import ProductImage from "./ProductImage";
+
+const Cart = () => {
+  const { items, itemCount, subtotal, updateQuantity, removeItem, refreshProducts, clear } = useCart();
+  const navigate = useNavigate();
+  const [isPlacingOrder, setIsPlacingOrder] = useState(false);
+
+  // Only refetch when the set of products changes, not on every quantity change
+  const productIds = [...new Set(items.map((i) => i.productId))].join(",");
+
+  // Prices and stock may have changed since the items were added
+  const syncProducts = useCallback(async () => {
+    if (!productIds) return;
+    const result = await productsApi.listByIds(productIds.split(","));
+    if (!result.ok) {
+      console.error("Refresh cart error:", result.error);
+      return;
+    }
+    refreshProducts(result.data);
+  }, [productIds, refreshProducts]);
+
+  useEffect(() => {
+    syncProducts();
+  }, [syncProducts]);
+
+  const checkout = async () => {
+    const lines = items
+      .filter((i) => i.quantity > 0)
+      .map(({ productId, variantId, quantity }) => ({ productId, variantId, quantity }));
+    if (lines.length === 0) return;
+    setIsPlacingOrder(true);
+    const result = await ordersApi.create(lines);
+    setIsPlacingOrder(false);
+    if (!result.ok) {
+      toast.error(`Could not place order: ${result.error.message}`);
+      console.error("Checkout error:", result.error);
+      // Stock probably moved; show the current numbers
+      if (result.error.status === 409) syncProducts();
+      return;
+    }
+    clear();
+    toast.success(`Order placed! Total ${formatPrice(result.data.total)}`);
+    navigate("/orders");
+  };
+
+  const changeQuantity = (key: string, quantity: number) => {
+    const item = items.find((i) => i.key === key);
+    if (!updateQuantity(key, quantity) && item && quantity > item.product.stock) {
+      toast.error(`Only ${item.product.stock} of "${item.product.name}" in stock`, {
+        id: `stock-cap-${key}`,
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-10 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-4xl mx-auto">
+        <h1 className="text-3xl font-bold text-gray-800 mb-8">Your Cart</h1>
+
+        <div className="bg-white p-6 rounded-xl shadow-md">
+          {items.length === 0 ? (
+            <div className="text-center py-4">
+              <p className="text-gray-500 mb-4">Your cart is empty.</p>
+              <Link to="/" className="text-blue-600 hover:underline font-medium">
+                Browse products
+              </Link>
+            </div>
+          ) : (
+            <>
+              <ul className="divide-y">
+                {items.map(({ key, product, quantity }) => (
+                  <li key={key} className="py-4 flex items-center gap-4">
+                    <ProductImage
+                      src={thumbnailSrc(product.image)}
+                      alt={product.name}
+                      className="w-16 h-16 object-cover rounded-lg"
+                    />
+                    <div className="flex-1">
+                      <p className="font-semibold text-gray-800">{product.name}</p>
+                      <p className="text-sm text-green-600">{formatPrice(product.price)}</p>
+                      {product.stock === 0 && (
+                        <p className="text-sm text-red-600 font-semibold">Out of stock</p>
+                      )}
+                    </div>
+                    <input
+                      type="number"
+                      min="1"
+                      max={product.stock}
+                      value={quantity}
+                      disabled={product.stock === 0}
+                      onChange={(e) => changeQuantity(key, Number(e.target.value))}
+                      className="w-20 p-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                      aria-label={`Quantity of ${product.name}`}
+                    />
+                    <p className="w-28 text-right font-semibold text-gray-800">
+                      {formatPrice(product.price * quantity)}
+                    </p>
+                    <button
+                      className="text-red-600 hover:text-red-700 font-medium"
+                      onClick={() => removeItem(key)}
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <div className="mt-6 flex justify-between items-center border-t pt-4">
+                <p className="text-gray-600">{itemCount} item(s)</p>
+                <p className="text-xl font-bold text-gray-800">
+                  Subtotal: <span className="text-green-600">{formatPrice(subtotal)}</span>
+                </p>
+              </div>
+              <div className="mt-6 flex justify-end">
+                <button
+                  className="bg-green-600 text-white px-8 py-3 rounded-lg font-semibold hover:bg-green-700 hover:scale-105 transition-all duration-200 disabled:bg-green-400 disabled:hover:scale-100 disabled:cursor-not-allowed"
+                  disabled={isPlacingOrder || itemCount === 0}
+                  onClick={checkout}
+                >
+                  {isPlacingOrder ? "Placing order..." : "Checkout"}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Cart;
@@ -0,0 +1,258 @@
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { categoriesApi } from "../api/categories";
+import { settingsApi } from "../api/settings";
+import { useCan } from "../context/useCan";
+import { useCategories } from "../hooks/useCategories";
+import { Category } from "../types/category";
+import { categoryColor } from "../utils/categoryColors";
+import { FALLBACK_REORDER_POINT, parseReorderPoint } from "../utils/reorderPoint";
+
+const CategoryManagement = () => {
+  const { categories, reload } = useCategories();
+  const [newName, setNewName] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const canManageSettings = useCan("settings:manage");
+  const [defaultReorderPoint, setDefaultReorderPoint] = useState<number | null>(null);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      const result = await settingsApi.get();
+      if (!result.ok) {
+        console.error("Fetch settings error:", result.error);
+        return;
+      }
+      setDefaultReorderPoint(result.data.defaultReorderPoint ?? FALLBACK_REORDER_POINT);
+    };
+    fetchSettings();
+  }, []);
+
+  const createCategory = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) {
+      toast.error("Please enter a category name!");
+      return;
+    }
+    const result = await categoriesApi.create(newName);
+    if (!result.ok) {
+      toast.error(`Failed to create category: ${result.error.message}`);
+      console.error("Create category error:", result.error);
+      return;
+    }
+    setNewName("");
+    toast.success(`Category "${result.data.name}" created successfully!`);
+    reload();
+  };
+
+  const handleRenameSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renaming) return;
+    const result = await categoriesApi.update(renaming.id, { name: renaming.name });
+    if (!result.ok) {
+      toast.error(`Failed to rename category: ${result.error.message}`);
+      console.error("Rename category error:", result.error);
+      return;
+    }
+    setRenaming(null);
+    toast.success(`Category renamed to "${result.data.name}"; its products were updated too`);
+    reload();
+  };
+
+  const toggleArchived = async (category: Category) => {
+    const result = await categoriesApi.update(category.id, { archived: !category.archived });
+    if (!result.ok) {
+      toast.error(`Failed to update category: ${result.error.message}`);
+      console.error("Archive category error:", result.error);
+      return;
+    }
+    toast.success(`Category "${category.name}" ${category.archived ? "restored" : "archived"}`);
+    reload();
+  };
+
+  // Blank clears the category default so its products use the store default
+  const saveReorderPoint = async (category: Category, value: string) => {
+    const reorderPoint = parseReorderPoint(value) ?? null;
+    if (reorderPoint === (category.reorderPoint ?? null)) return;
+    const result = await categoriesApi.update(category.id, { reorderPoint });
+    if (!result.ok) {
+      toast.error(`Failed to update reorder point: ${result.error.message}`);
+      console.error("Update reorder point error:", result.error);
+      return;
+    }
+    toast.success(
+      reorderPoint === null
+        ? `"${category.name}" now uses the store reorder point`
+        : `Reorder point for "${category.name}" set to ${reorderPoint}`
+    );
+    reload();
+  };
+
+  // The store default applies to products in categories without their own
+  const saveDefaultReorderPoint = async (value: string) => {
+    const reorderPoint = parseReorderPoint(value);
+    if (reorderPoint === undefined || reorderPoint === defaultReorderPoint) return;
+    const result = await settingsApi.update({ defaultReorderPoint: reorderPoint });
+    if (!result.ok) {
+      toast.error(`Failed to update settings: ${result.error.message}`);
+      console.error("Update settings error:", result.error);
+      return;
+    }
+    setDefaultReorderPoint(result.data.defaultReorderPoint);
+    toast.success(`Store reorder point set to ${result.data.defaultReorderPoint}`);
+  };
+
+  // Swaps positions with the neighbour in the given direction
+  const move = async (index: number, direction: -1 | 1) => {
+    const category = categories[index];
+    const neighbour = categories[index + direction];
+    if (!neighbour) return;
+    const results = await Promise.all([
+      categoriesApi.update(category.id, { position: neighbour.position }),
+      categoriesApi.update(neighbour.id, { position: category.position }),
+    ]);
+    const failed = results.find((r) => !r.ok);
+    if (failed && !failed.ok) {
+      toast.error(`Failed to reorder categories: ${failed.error.message}`);
+      console.error("Reorder categories error:", failed.error);
+    }
+    reload();
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-10 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex justify-between items-center">
+          <h1 className="text-3xl font-bold text-gray-800">Categories</h1>
+          {defaultReorderPoint !== null && (
+            <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+              Store reorder point
+              <input
+                key={defaultReorderPoint}
+                type="number"
+                defaultValue={defaultReorderPoint}
+                onBlur={(e) => saveDefaultReorderPoint(e.target.value)}
+                onKeyDown={(e) => { if (e.key === "Enter") e.currentTarget.blur(); }}
+                className="w-20 p-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                min="0"
+                step="1"
+                disabled={!canManageSettings}
+                title="Reorder point for products in categories without their own"
+              />
+            </label>
+          )}
+        </div>
+
+        {/* Create Category */}
+        <form onSubmit={createCategory} className="mb-8 bg-white p-6 rounded-xl shadow-md flex flex-col sm:flex-row gap-4 sm:items-end">
+          <div className="flex-1">
+            <label className="block text-sm font-semibold text-gray-700 mb-2">New Category</label>
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
+              placeholder="Category name"
+              required
+            />
+          </div>
+          <button
+            type="submit"
+            className="bg-blue-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-blue-700 hover:scale-105 transition-all duration-200"
+          >
+            Add Category
+          </button>
+        </form>
+
+        {/* Category List */}
+        <div className="bg-white p-6 rounded-xl shadow-md">
+          {categories.length === 0 ? (
+            <p className="text-gray-500 text-center py-4">No categories yet.</p>
+          ) : (
+            <ul className="space-y-3">
+              {categories.map((category, index) => (
+                <li key={category.id} className="flex items-center gap-4 border-b pb-3">
+                  <span
+                    className="w-4 h-4 rounded-full shrink-0"
+                    style={{ backgroundColor: categoryColor(index) }}
+                  />
+                  {renaming?.id === category.id ? (
+                    <form onSubmit={handleRenameSubmit} className="flex-1 flex gap-2">
+                      <input
+                        type="text"
+                        value={renaming.name}
+                        onChange={(e) => setRenaming({ ...renaming, name: e.target.value })}
+                        className="flex-1 p-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        autoFocus
+                        required
+                      />
+                      <button type="submit" className="bg-blue-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-blue-700">
+                        Save
+                      </button>
+                      <button
+                        type="button"
+                        className="bg-gray-500 text-white px-4 py-2 rounded-lg font-semibold hover:bg-gray-600"
+                        onClick={() => setRenaming(null)}
+                      >
+                        Cancel
+                      </button>
+                    </form>
+                  ) : (
+                    <p className={`flex-1 font-semibold ${category.archived ? "text-gray-400 line-through" : "text-gray-800"}`}>
+                      {category.name}
+                    </p>
+                  )}
+                  <input
+                    key={`${category.id}-${category.reorderPoint ?? ""}`}
+                    type="number"
+                    defaultValue={category.reorderPoint ?? ""}
+                    onBlur={(e) => saveReorderPoint(category, e.target.value)}
+                    onKeyDown={(e) => { if (e.key === "Enter") e.currentTarget.blur(); }}
+                    className="w-28 p-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    min="0"
+                    step="1"
+                    placeholder={defaultReorderPoint === null ? "Default" : `Default (${defaultReorderPoint})`}
+                    title="Reorder point for products in this category"
+                    aria-label={`Reorder point for ${category.name}`}
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      className="bg-gray-200 text-gray-800 px-3 py-2 rounded-lg hover:bg-gray-300 disabled:opacity-50"
+                      disabled={index === 0}
+                      onClick={() => move(index, -1)}
+                      aria-label={`Move ${category.name} up`}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      className="bg-gray-200 text-gray-800 px-3 py-2 rounded-lg hover:bg-gray-300 disabled:opacity-50"
+                      disabled={index === categories.length - 1}
+                      onClick={() => move(index, 1)}
+                      aria-label={`Move ${category.name} down`}
+                    >
+                      ↓
+                    </button>
+                    <button
+                      className="bg-yellow-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-yellow-700"
+                      onClick={() => setRenaming({ id: category.id, name: category.name })}
+                    >
+                      Rename
+                    </button>
+                    <button
+                      className={`${category.archived ? "bg-green-600 hover:bg-green-700" : "bg-red-600 hover:bg-red-700"} text-white px-4 py-2 rounded-lg font-semibold`}
+                      onClick={() => toggleArchived(category)}
+                    >
+                      {category.archived ? "Restore" : "Archive"}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryManagement;
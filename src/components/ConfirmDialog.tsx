@@ -0,0 +1,37 @@
+interface ConfirmDialogProps {
+  title: string;
+  message: React.ReactNode;
+  confirmLabel: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Yes/no prompt for destructive actions
+const ConfirmDialog: React.FC<ConfirmDialogProps> = ({ title, message, confirmLabel, onConfirm, onCancel }) => (
+  <div
+    className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-60 z-50"
+    onClick={(e) => { if (e.target === e.currentTarget) onCancel(); }}
+  >
+    <div className="bg-white p-8 rounded-xl shadow-2xl w-full max-w-md" role="alertdialog" aria-labelledby="confirm-title">
+      <h2 id="confirm-title" className="text-2xl font-bold text-gray-800 mb-4">{title}</h2>
+      <p className="text-gray-600 mb-6">{message}</p>
+      <div className="flex gap-4 justify-end">
+        <button
+          className="bg-red-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-red-700 hover:scale-105 transition-all duration-200"
+          onClick={onConfirm}
+          autoFocus
+        >
+          {confirmLabel}
+        </button>
+        <button
+          className="bg-gray-500 text-white px-6 py-2 rounded-lg font-semibold hover:bg-gray-600 hover:scale-105 transition-all duration-200"
+          onClick={onCancel}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default ConfirmDialog;
@@ -0,0 +1,215 @@
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { useCategories } from "../hooks/useCategories";
+import { useReorderPoints } from "../hooks/useReorderPoints";
+import { ProductChanges, productsApi } from "../api/products";
+import { Product } from "../types/product";
+import ImageGalleryField from "./ImageGalleryField";
+import { barcodeError } from "../utils/barcode";
+import { parseReorderPoint } from "../utils/reorderPoint";
+import { applyVariants, hasVariants, validateVariants } from "../utils/variants";
+import VariantsEditor from "./VariantsEditor";
+
+interface EditProductModalProps {
+  product: Product;
+  onClose: () => void;
+  onSaved: (product: Product) => void;
+}
+
+// The fields the form edits, sent as a PATCH. Stock is left out so an edit can
+// never undo sales made while the form was open; saved variants keep theirs.
+// Cleared fields are sent empty, since a PATCH keeps whatever is left out.
+const toChanges = (product: Product, savedVariantIds: string[]): ProductChanges => ({
+  name: product.name,
+  category: product.category,
+  price: product.price,
+  description: product.description,
+  sku: product.sku ?? "",
+  barcode: product.barcode ?? "",
+  images: product.images ?? [],
+  reorderPoint: product.reorderPoint ?? null,
+  attributes: product.attributes ?? [],
+  variants: (product.variants ?? []).map(({ stock, ...variant }) =>
+    savedVariantIds.includes(variant.id) ? variant : { ...variant, stock }
+  ),
+});
+
+// Stock is read-only here; changes go through AdjustStockModal so they are recorded.
+// New variants are the exception: they start with the stock entered for them.
+const EditProductModal: React.FC<EditProductModalProps> = ({ product, onClose, onSaved }) => {
+  const { activeCategories } = useCategories();
+  const { reorderPointFor } = useReorderPoints();
+  const [draft, setDraft] = useState<Product>(product);
+  const withVariants = hasVariants(draft);
+  const derived = applyVariants(draft);
+  const savedVariantIds = (product.variants ?? []).map((v) => v.id);
+
+  const updateProduct = async () => {
+    const codeError =
+      barcodeError(draft.barcode?.trim() ?? "") ||
+      (withVariants && validateVariants(draft.attributes ?? [], draft.variants ?? []));
+    if (codeError) {
+      toast.error(codeError);
+      return;
+    }
+    const result = await productsApi.patch(product.id, toChanges(derived, savedVariantIds));
+    if (!result.ok) {
+      toast.error(`Failed to update product: ${result.error.message}`);
+      console.error("Update product error:", result.error);
+      return;
+    }
+    const saved = result.data;
+    toast.success(`Product "${saved.name}" updated successfully!`);
+    onSaved(saved);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateProduct();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-60 z-50"
+      onClick={(e) => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <div className="bg-white p-8 rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto transform transition-all duration-300 scale-95">
+        <h2 className="text-2xl font-bold text-gray-800 mb-6">Edit Product</h2>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Category</label>
+              <select
+                value={draft.category}
+                onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+                className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
+                required
+              >
+                <option value="">Select Category</option>
+                {activeCategories.map((category) => (
+                  <option key={category.id} value={category.name}>{category.name}</option>
+                ))}
+                {/* Keep an archived category selectable for products already in it */}
+                {draft.category &&
+                  !activeCategories.some((c) => c.name === draft.category) && (
+                    <option value={draft.category}>{draft.category}</option>
+                  )}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">SKU</label>
+              <input
+                type="text"
+                value={draft.sku ?? ""}
+                onChange={(e) => setDraft({ ...draft, sku: e.target.value })}
+                className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Barcode</label>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={draft.barcode ?? ""}
+                onChange={(e) => setDraft({ ...draft, barcode: e.target.value })}
+                className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
+                placeholder="EAN-13, EAN-8 or UPC-A"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Price</label>
+              <input
+                type="number"
+                value={derived.price}
+                onChange={(e) => setDraft({ ...draft, price: Number(e.target.value) })}
+                className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200 disabled:bg-gray-100 disabled:text-gray-500"
+                min="0"
+                step="0.01"
+                disabled={withVariants}
+                required
+              />
+              {withVariants && <p className="text-xs text-gray-500 mt-1">Lowest variant price.</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Stock</label>
+              <input
+                type="number"
+                value={derived.stock}
+                className="w-full p-3 border border-gray-300 rounded-lg bg-gray-100 text-gray-500"
+                disabled
+              />
+              <p className="text-xs text-gray-500 mt-1">Use Adjust Stock to record a change.</p>
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Reorder Point</label>
+              <input
+                type="number"
+                value={draft.reorderPoint ?? ""}
+                onChange={(e) => setDraft({ ...draft, reorderPoint: parseReorderPoint(e.target.value) })}
+                className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
+                min="0"
+                step="1"
+                placeholder={`Default (${reorderPointFor({ ...draft, reorderPoint: undefined })})`}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Description</label>
+              <textarea
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
+                rows={4}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Images (optional)</label>
+              <ImageGalleryField
+                images={draft.images ?? []}
+                onChange={(images) => setDraft({ ...draft, images })}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Variants (optional)</label>
+              <VariantsEditor
+                productName={draft.name}
+                basePrice={draft.price}
+                attributes={draft.attributes ?? []}
+                variants={draft.variants ?? []}
+                lockedStockIds={savedVariantIds}
+                defaultReorderPoint={reorderPointFor(draft)}
+                onChange={(attributes, variants) => setDraft({ ...draft, attributes, variants })}
+              />
+            </div>
+          </div>
+          <div className="mt-6 flex gap-4 justify-end">
+            <button
+              type="submit"
+              className="bg-blue-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-blue-700 hover:scale-105 transition-all duration-200"
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              className="bg-gray-500 text-white px-6 py-2 rounded-lg font-semibold hover:bg-gray-600 hover:scale-105 transition-all duration-200"
+              onClick={onClose}
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default EditProductModal;
@@ -0,0 +1,23 @@
+import { Link } from "react-router-dom";
+
+const Forbidden = () => {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
+      <div className="w-full max-w-md bg-white rounded-xl shadow-lg p-8 text-center">
+        <p className="text-5xl font-extrabold text-red-600 mb-4">403</p>
+        <h2 className="text-2xl font-bold text-gray-800 mb-2">Access denied</h2>
+        <p className="text-gray-600 mb-6">
+          Your account does not have permission to view this page.
+        </p>
+        <Link
+          to="/"
+          className="inline-block bg-blue-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-blue-700 hover:scale-105 transition-all duration-200"
+        >
+          Back to Products
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default Forbidden;
@@ -1,8 +1,8 @@
-import { useAuth } from "../context/useAuth";
+import { useCan } from "../context/useCan";
 import { Link } from "react-router-dom";
 
 const Home = () => {
-  const { user } = useAuth();
+  const canViewReports = useCan("reports:view");
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 text-white flex flex-col">
@@ -43,7 +43,7 @@ const Home = () => {
       </section>
 
       {/* Call to Action */}
-      {user?.role === "admin" && (
+      {canViewReports && (
         <section className="py-12 px-4 bg-blue-600">
           <div className="max-w-4xl mx-auto text-center">
             <h2 className="text-3xl font-bold mb-4">Manage Your Store</h2>
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { FaTimes, FaUpload } from "react-icons/fa";
+import { uploadsApi } from "../api/uploads";
+import { ProductPhoto } from "../types/product";
+import { moveImage, thumbnailSrc } from "../utils/images";
+import { IMAGE_TYPES, MAX_UPLOAD_BYTES, validateImageFile } from "../utils/uploads";
+import ProductImage from "./ProductImage";
+
+interface ImageGalleryFieldProps {
+  images: ProductPhoto[];
+  onChange: (images: ProductPhoto[]) => void;
+}
+
+// Uploads images and orders them by drag and drop; the first one is the primary image
+const ImageGalleryField: React.FC<ImageGalleryFieldProps> = ({ images, onChange }) => {
+  const [isUploading, setIsUploading] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...(e.target.files ?? [])];
+    e.target.value = ""; // Lets the same files be picked again after an error
+    if (files.length === 0) return;
+
+    setIsUploading(true);
+    const uploaded: ProductPhoto[] = [];
+    for (const file of files) {
+      const validationError = validateImageFile(file);
+      if (validationError) {
+        toast.error(`${file.name}: ${validationError}`);
+        continue;
+      }
+      const result = await uploadsApi.image(file);
+      if (!result.ok) {
+        toast.error(`Failed to upload ${file.name}: ${result.error.message}`);
+        console.error("Upload image error:", result.error);
+        continue;
+      }
+      uploaded.push({ url: result.data.url, thumbnailUrl: result.data.thumbnailUrl });
+    }
+    setIsUploading(false);
+    if (uploaded.length > 0) onChange([...images, ...uploaded]);
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) onChange(moveImage(images, dragIndex, index));
+    setDragIndex(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      {images.length > 0 && (
+        <ul className="flex flex-wrap gap-3">
+          {images.map((image, index) => (
+            <li
+              key={image.url}
+              draggable
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => handleDrop(index)}
+              onDragEnd={() => setDragIndex(null)}
+              className={`relative w-24 h-24 rounded-lg overflow-hidden border-2 cursor-move ${
+                index === 0 ? "border-indigo-500" : "border-gray-200"
+              } ${dragIndex === index ? "opacity-50" : ""}`}
+            >
+              <ProductImage src={thumbnailSrc(image)} alt={`Image ${index + 1}`} className="w-full h-full object-cover" />
+              {index === 0 && (
+                <span className="absolute bottom-0 inset-x-0 bg-indigo-500 text-white text-xs text-center">Primary</span>
+              )}
+              <button
+                type="button"
+                onClick={() => onChange(images.filter((_, i) => i !== index))}
+                className="absolute top-1 right-1 bg-white/90 text-red-600 rounded-full p-1 hover:bg-white"
+                aria-label={`Remove image ${index + 1}`}
+              >
+                <FaTimes size={10} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex items-center gap-4">
+        <label
+          className={`flex items-center px-4 py-2 rounded-lg font-semibold text-white transition-all duration-200 ${
+            isUploading ? "bg-indigo-400 cursor-not-allowed" : "bg-indigo-600 hover:bg-indigo-700 cursor-pointer"
+          }`}
+        >
+          <FaUpload className="mr-2" />
+          {isUploading ? "Uploading..." : "Add Images"}
+          <input
+            type="file"
+            accept={IMAGE_TYPES.join(",")}
+            multiple
+            onChange={handleFiles}
+            disabled={isUploading}
+            className="hidden"
+          />
+        </label>
+        <p className="text-xs text-gray-500">
+          JPEG, PNG, GIF or WebP, up to {MAX_UPLOAD_BYTES / 1024 / 1024} MB each.
+          {images.length > 1 && " Drag to reorder; the first image is the primary one."}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ImageGalleryField;
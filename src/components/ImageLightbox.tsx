@@ -0,0 +1,75 @@
+import { useEffect, useState } from "react";
+import { FaChevronLeft, FaChevronRight, FaTimes } from "react-icons/fa";
+import { ProductPhoto } from "../types/product";
+import ProductImage from "./ProductImage";
+
+interface ImageLightboxProps {
+  images: ProductPhoto[];
+  startIndex?: number;
+  alt: string;
+  onClose: () => void;
+}
+
+// Full-screen viewer; arrow keys step through the images and Escape closes it
+const ImageLightbox: React.FC<ImageLightboxProps> = ({ images, startIndex = 0, alt, onClose }) => {
+  const [index, setIndex] = useState(startIndex);
+  const count = images.length;
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+      if (e.key === "ArrowLeft") setIndex((i) => (i - 1 + count) % count);
+      if (e.key === "ArrowRight") setIndex((i) => (i + 1) % count);
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [count, onClose]);
+
+  if (count === 0) return null;
+
+  const navButtonClassName =
+    "absolute top-1/2 -translate-y-1/2 bg-white/80 text-gray-800 rounded-full p-3 hover:bg-white transition-all duration-200";
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-90 z-50"
+      onClick={(e) => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <button
+        onClick={onClose}
+        className="absolute top-4 right-4 text-white hover:text-gray-300"
+        aria-label="Close"
+      >
+        <FaTimes size={24} />
+      </button>
+      <ProductImage
+        src={images[index].url}
+        alt={`${alt} (${index + 1} of ${count})`}
+        className="max-h-[85vh] max-w-[90vw] object-contain"
+      />
+      {count > 1 && (
+        <>
+          <button
+            onClick={() => setIndex((index - 1 + count) % count)}
+            className={`${navButtonClassName} left-4`}
+            aria-label="Previous image"
+          >
+            <FaChevronLeft />
+          </button>
+          <button
+            onClick={() => setIndex((index + 1) % count)}
+            className={`${navButtonClassName} right-4`}
+            aria-label="Next image"
+          >
+            <FaChevronRight />
+          </button>
+          <p className="absolute bottom-4 text-white text-sm">
+            {index + 1} / {count}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ImageLightbox;
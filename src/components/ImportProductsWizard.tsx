@@ -0,0 +1,363 @@
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { notificationsApi } from "../api/notifications";
+import { productsApi } from "../api/products";
+import { stockApi } from "../api/stock";
+import { useNotifications } from "../context/useNotifications";
+import { NewProduct, Product } from "../types/product";
+import { parseCSV } from "../utils/csv";
+import { jsonToRecords } from "../utils/productJson";
+import { readXLSX } from "../utils/productXlsx";
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportAction,
+  ImportRow,
+  ImportMode,
+  guessMapping,
+  importChanges,
+  importStockAdjustments,
+  planImport,
+  readRows,
+} from "../utils/productCsv";
+
+interface ImportProductsWizardProps {
+  onClose: () => void;
+  onImported: () => void; // Called once any product was created or updated
+}
+
+type Step = "upload" | "map" | "preview" | "report";
+
+interface ReportLine {
+  index: number;
+  name: string;
+  reason: string;
+}
+
+interface ImportReport {
+  created: number;
+  updated: number;
+  skipped: ReportLine[];
+  failed: ReportLine[];
+}
+
+const MODE_LABELS: Record<ImportMode, string> = {
+  create: "Create new products only (skip names that already exist)",
+  "upsert-id": "Update products with a matching ID, create the rest",
+  "upsert-name": "Update products with a matching name, create the rest",
+};
+
+const ACTION_STYLES: Record<ImportAction["action"], string> = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  skip: "bg-red-100 text-red-800",
+};
+
+// Records from the file, header row first
+const readFile = async (file: File): Promise<string[][]> => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".xlsx")) return readXLSX(await file.arrayBuffer());
+  if (name.endsWith(".json")) return jsonToRecords(await file.text());
+  return parseCSV(await file.text());
+};
+
+const selectClassName =
+  "w-full p-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200";
+
+const ImportProductsWizard: React.FC<ImportProductsWizardProps> = ({ onClose, onImported }) => {
+  const { refresh } = useNotifications();
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [records, setRecords] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [mode, setMode] = useState<ImportMode>("create");
+  const [existing, setExisting] = useState<Product[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const reportFailure = async (message: string) => {
+    const result = await notificationsApi.reportBulkUploadFailure(message);
+    if (!result.ok) console.error("Report bulk upload error:", result.error);
+    refresh();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    let rows: string[][];
+    try {
+      rows = await readFile(file);
+    } catch (error) {
+      toast.error(`Could not read ${file.name}: ${(error as Error).message}`);
+      reportFailure(`${file.name} could not be read: ${(error as Error).message}`);
+      return;
+    }
+    if (rows.length < 2) {
+      toast.error(`${file.name} has no data rows`);
+      return;
+    }
+    const result = await productsApi.list();
+    if (!result.ok) {
+      toast.error(`Failed to fetch products: ${result.error.message}`);
+      console.error("Fetch products error:", result.error);
+      return;
+    }
+    setExisting(result.data);
+    setFileName(file.name);
+    setHeaders(rows[0]);
+    setRecords(rows.slice(1));
+    setMapping(guessMapping(rows[0]));
+    // JSON backups always use the product field names, so there is nothing to map
+    if (file.name.toLowerCase().endsWith(".json")) {
+      setMode("upsert-id");
+      setStep("preview");
+    } else {
+      setStep("map");
+    }
+  };
+
+  const unmappedRequired = IMPORT_FIELDS.filter((f) => f.required && mapping[f.field] === undefined);
+  const actions = step === "preview" ? planImport(readRows(records, mapping), existing, mode) : [];
+  const counts = {
+    create: actions.filter((a) => a.action === "create").length,
+    update: actions.filter((a) => a.action === "update").length,
+    skip: actions.filter((a) => a.action === "skip").length,
+  };
+
+  // Returns why the row's stock could not be applied, or null
+  const applyStock = async (row: ImportRow, saved: Product) => {
+    for (const adjustment of importStockAdjustments(row, saved)) {
+      const result = await stockApi.adjust(saved.id, adjustment);
+      if (!result.ok) {
+        console.error(`Import row ${row.index} stock error:`, result.error);
+        return `Updated, but the stock was not: ${result.error.message}`;
+      }
+    }
+    return null;
+  };
+
+  const runImport = async () => {
+    setIsImporting(true);
+    const next: ImportReport = { created: 0, updated: 0, skipped: [], failed: [] };
+    for (const { row, action, target, reason } of actions) {
+      const name = row.product.name || `Row ${row.index}`;
+      if (action === "skip") {
+        next.skipped.push({ index: row.index, name, reason: reason || "Skipped" });
+        continue;
+      }
+      const result =
+        action === "update" && target
+          ? await productsApi.patch(target.id, importChanges(row, target))
+          : await productsApi.create({ description: "", ...importChanges(row) } as NewProduct);
+      if (!result.ok) {
+        console.error(`Import row ${row.index} error:`, result.error);
+        next.failed.push({ index: row.index, name, reason: result.error.message });
+      } else if (action === "update") {
+        const stockError = await applyStock(row, result.data);
+        if (stockError) next.failed.push({ index: row.index, name, reason: stockError });
+        else next.updated++;
+      } else {
+        next.created++;
+      }
+    }
+    setIsImporting(false);
+    setReport(next);
+    setStep("report");
+
+    if (next.created + next.updated > 0) onImported();
+    if (next.failed.length + next.skipped.length > 0) {
+      reportFailure(
+        `${fileName}: ${next.failed.length} row(s) failed and ${next.skipped.length} were skipped ` +
+          `(${next.created} created, ${next.updated} updated).`
+      );
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-60 z-50"
+      onClick={(e) => { if (e.target === e.currentTarget && !isImporting) onClose(); }}
+    >
+      <div className="bg-white p-8 rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <h2 className="text-2xl font-bold text-gray-800 mb-2">Import Products</h2>
+        {fileName && <p className="text-gray-600 mb-6">{fileName} · {records.length} row(s)</p>}
+
+        {step === "upload" && (
+          <div className="space-y-4 mt-4">
+            <p className="text-gray-600">
+              Choose a CSV or Excel (.xlsx) file with a header row, or a JSON backup. Files exported from this
+              store can be imported as they are.
+            </p>
+            <input
+              type="file"
+              accept=".csv,text/csv,.xlsx,.json,application/json"
+              onChange={handleFile}
+              className="block w-full text-sm"
+            />
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-4">
+            <p className="text-gray-600">Match each product field to a column in the file.</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field}>
+                  <label className="block text-sm font-semibold text-gray-700 mb-1">
+                    {label}
+                    {required && " *"}
+                  </label>
+                  <select
+                    value={mapping[field] ?? ""}
+                    onChange={(e) =>
+                      setMapping({ ...mapping, [field]: e.target.value === "" ? undefined : Number(e.target.value) })
+                    }
+                    className={selectClassName}
+                  >
+                    <option value="">— Not imported —</option>
+                    {headers.map((header, index) => (
+                      <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            {unmappedRequired.length > 0 && (
+              <p className="text-sm text-red-600">
+                Map the required fields: {unmappedRequired.map((f) => f.label).join(", ")}
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {(Object.keys(MODE_LABELS) as ImportMode[]).map((value) => (
+                <label key={value} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="import-mode"
+                    checked={mode === value}
+                    disabled={value === "upsert-id" && mapping.id === undefined}
+                    onChange={() => setMode(value)}
+                  />
+                  {MODE_LABELS[value]}
+                </label>
+              ))}
+            </div>
+            <p className="text-sm font-semibold text-gray-700">
+              {counts.create} to create · {counts.update} to update · {counts.skip} to skip
+            </p>
+            <div className="overflow-x-auto max-h-96 border rounded-lg">
+              <table className="w-full text-left">
+                <thead className="sticky top-0 bg-gray-50">
+                  <tr className="border-b text-sm font-semibold text-gray-700">
+                    <th className="py-2 px-3">Row</th>
+                    <th className="py-2 px-3">Name</th>
+                    <th className="py-2 px-3">Category</th>
+                    <th className="py-2 px-3">Price</th>
+                    <th className="py-2 px-3">Stock</th>
+                    <th className="py-2 px-3">Action</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {actions.map(({ row, action, reason }) => (
+                    <tr key={row.index} className="border-b align-top text-sm">
+                      <td className="py-2 px-3 text-gray-500">{row.index}</td>
+                      <td className="py-2 px-3 text-gray-800">{row.product.name ?? "—"}</td>
+                      <td className="py-2 px-3 text-gray-600">{row.product.category ?? "—"}</td>
+                      <td className="py-2 px-3 text-gray-600">{row.product.price ?? "—"}</td>
+                      <td className="py-2 px-3 text-gray-600">{row.product.stock ?? "—"}</td>
+                      <td className="py-2 px-3">
+                        <span className={`px-2 py-0.5 rounded-full font-semibold capitalize ${ACTION_STYLES[action]}`}>
+                          {action}
+                        </span>
+                        {reason && <p className="text-xs text-red-600 mt-1">{reason}</p>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {step === "report" && report && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-center">
+              <div className="bg-green-50 rounded-lg p-4">
+                <p className="text-2xl font-bold text-green-600">{report.created}</p>
+                <p className="text-sm text-gray-600">Created</p>
+              </div>
+              <div className="bg-blue-50 rounded-lg p-4">
+                <p className="text-2xl font-bold text-blue-600">{report.updated}</p>
+                <p className="text-sm text-gray-600">Updated</p>
+              </div>
+              <div className="bg-yellow-50 rounded-lg p-4">
+                <p className="text-2xl font-bold text-yellow-600">{report.skipped.length}</p>
+                <p className="text-sm text-gray-600">Skipped</p>
+              </div>
+              <div className="bg-red-50 rounded-lg p-4">
+                <p className="text-2xl font-bold text-red-600">{report.failed.length}</p>
+                <p className="text-sm text-gray-600">Failed</p>
+              </div>
+            </div>
+            {[...report.failed, ...report.skipped].length > 0 && (
+              <ul className="max-h-64 overflow-y-auto divide-y border rounded-lg text-sm">
+                {[...report.failed, ...report.skipped]
+                  .sort((a, b) => a.index - b.index)
+                  .map((line) => (
+                    <li key={line.index} className="px-3 py-2">
+                      <span className="font-semibold text-gray-800">Row {line.index} ({line.name}):</span>{" "}
+                      <span className="text-gray-600">{line.reason}</span>
+                    </li>
+                  ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="mt-6 flex gap-4 justify-end">
+          {step === "map" && (
+            <button
+              className="bg-blue-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-blue-700 hover:scale-105 transition-all duration-200 disabled:bg-blue-400 disabled:hover:scale-100 disabled:cursor-not-allowed"
+              disabled={unmappedRequired.length > 0}
+              onClick={() => setStep("preview")}
+            >
+              Preview
+            </button>
+          )}
+          {step === "preview" && (
+            <>
+              <button
+                className="bg-gray-200 text-gray-800 px-6 py-2 rounded-lg font-semibold hover:bg-gray-300 transition-all duration-200"
+                disabled={isImporting}
+                onClick={() => setStep("map")}
+              >
+                Back
+              </button>
+              <button
+                className="bg-blue-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-blue-700 hover:scale-105 transition-all duration-200 disabled:bg-blue-400 disabled:hover:scale-100 disabled:cursor-not-allowed"
+                disabled={isImporting || counts.create + counts.update === 0}
+                onClick={runImport}
+              >
+                {isImporting ? "Importing..." : `Import ${counts.create + counts.update} Product(s)`}
+              </button>
+            </>
+          )}
+          <button
+            className="bg-gray-500 text-white px-6 py-2 rounded-lg font-semibold hover:bg-gray-600 hover:scale-105 transition-all duration-200"
+            disabled={isImporting}
+            onClick={onClose}
+          >
+            {step === "report" ? "Close" : "Cancel"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportProductsWizard;
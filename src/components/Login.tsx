@@ -1,27 +1,36 @@
 import { useState } from "react";
 import { useAuth } from "../context/useAuth";
-import { useNavigate } from "react-router-dom";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import toast from "react-hot-toast";
+import { hasPermission } from "../utils/permissions";
+
+// Only follow in-app paths, never "//evil.com" or absolute URLs
+const safeNextPath = (next: string | null) =>
+  next && next.startsWith("/") && !next.startsWith("//") ? next : null;
 
 const Login = () => {
-  const { login, user } = useAuth(); // Get user from context
+  const { login } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const nextPath = safeNextPath(searchParams.get("next"));
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
-      await login(username, password);
-      toast.success(`Logged in as ${username}!`);
-      // Redirect based on role after successful login
-      if (user?.role === "admin") {
-        navigate("/admin"); // Admins see ProductList with AddProductForm
+      const loggedInUser = await login(username, password);
+      toast.success(`Logged in as ${loggedInUser.username}!`);
+      // Return to the page that asked for a login, else pick a landing page by role
+      if (nextPath) {
+        navigate(nextPath, { replace: true });
+      } else if (hasPermission(loggedInUser, "reports:view")) {
+        navigate("/admin", { replace: true });
       } else {
-        navigate("/"); // Users see ProductList without AddProductForm
+        navigate("/", { replace: true });
       }
-    }  catch {
-      toast.error("Invalid credentials");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Invalid credentials");
     }
   };
 
@@ -67,9 +76,9 @@ const Login = () => {
         </form>
         <p className="mt-4 text-center text-sm text-gray-600">
           Don’t have an account?{" "}
-          <a href="#" className="text-blue-500 hover:underline">
+          <Link to="/signup" className="text-blue-500 hover:underline">
             Sign up
-          </a>
+          </Link>
         </p>
       </div>
     </div>
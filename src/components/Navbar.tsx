@@ -1,9 +1,20 @@
 import { useState } from "react";
 import { useAuth } from "../context/useAuth";
+import { useCan } from "../context/useCan";
+import { useCart } from "../context/useCart";
 import { Link, useNavigate } from "react-router-dom";
+import NotificationBell from "./NotificationBell";
 
 const Navbar = () => {
   const { user, logout } = useAuth();
+  const canViewReports = useCan("reports:view");
+  const canManageUsers = useCan("users:manage");
+  const canManageCategories = useCan("categories:manage");
+  const canViewAudit = useCan("audit:view");
+  const canDeleteProducts = useCan("products:delete");
+  const canUseCart = useCan("cart:use");
+  const canViewOrders = useCan("orders:view");
+  const { itemCount } = useCart();
   const navigate = useNavigate();
   const [isOpen, setIsOpen] = useState(false); // State for mobile menu toggle
 
@@ -45,7 +56,7 @@ const Navbar = () => {
           >
             Products
           </Link>
-          {user?.role === "admin" && (
+          {canViewReports && (
             <Link
               to="/admin"
               className="text-lg font-medium hover:text-blue-200 hover:scale-105 transform transition-all duration-200"
@@ -54,6 +65,66 @@ const Navbar = () => {
               Admin Dashboard
             </Link>
           )}
+          {canManageUsers && (
+            <Link
+              to="/admin/users"
+              className="text-lg font-medium hover:text-blue-200 hover:scale-105 transform transition-all duration-200"
+              onClick={() => setIsOpen(false)}
+            >
+              Users
+            </Link>
+          )}
+          {canManageCategories && (
+            <Link
+              to="/admin/categories"
+              className="text-lg font-medium hover:text-blue-200 hover:scale-105 transform transition-all duration-200"
+              onClick={() => setIsOpen(false)}
+            >
+              Categories
+            </Link>
+          )}
+          {canViewAudit && (
+            <Link
+              to="/admin/audit"
+              className="text-lg font-medium hover:text-blue-200 hover:scale-105 transform transition-all duration-200"
+              onClick={() => setIsOpen(false)}
+            >
+              Audit Log
+            </Link>
+          )}
+          {canDeleteProducts && (
+            <Link
+              to="/admin/trash"
+              className="text-lg font-medium hover:text-blue-200 hover:scale-105 transform transition-all duration-200"
+              onClick={() => setIsOpen(false)}
+            >
+              Trash
+            </Link>
+          )}
+          {canViewOrders && (
+            <Link
+              to="/orders"
+              className="text-lg font-medium hover:text-blue-200 hover:scale-105 transform transition-all duration-200"
+              onClick={() => setIsOpen(false)}
+            >
+              Orders
+            </Link>
+          )}
+          {canUseCart && (
+            <Link
+              to="/cart"
+              className="relative text-lg font-medium hover:text-blue-200 hover:scale-105 transform transition-all duration-200"
+              onClick={() => setIsOpen(false)}
+            >
+              Cart
+              {itemCount > 0 && (
+                <span className="absolute -top-2 -right-4 bg-red-500 text-white text-xs font-bold rounded-full px-2 py-0.5">
+                  {itemCount}
+                </span>
+              )}
+            </Link>
+          )}
+          {user && <NotificationBell onNavigate={() => setIsOpen(false)} />}
           {user ? (
             <button
               onClick={handleLogout}
@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { FaBell } from "react-icons/fa";
+import { useNotifications } from "../context/useNotifications";
+import { NOTIFICATION_TYPE_LABELS, NOTIFICATION_TYPES, NotificationType } from "../types/notification";
+
+const TYPE_STYLES: Record<NotificationType, string> = {
+  "low-stock": "bg-orange-500",
+  "out-of-stock": "bg-red-600",
+  "new-order": "bg-green-600",
+  "bulk-upload-failed": "bg-gray-600",
+};
+
+interface NotificationBellProps {
+  onNavigate: () => void; // Lets the Navbar close its mobile menu
+}
+
+const NotificationBell: React.FC<NotificationBellProps> = ({ onNavigate }) => {
+  const { notifications, unreadCount, toastTypes, markRead, markAllRead, dismiss, setToastTypes } =
+    useNotifications();
+  const [isOpen, setIsOpen] = useState(false);
+  const [showPreferences, setShowPreferences] = useState(false);
+
+  const toggleToastType = (type: NotificationType) =>
+    setToastTypes(toastTypes.includes(type) ? toastTypes.filter((t) => t !== type) : [...toastTypes, type]);
+
+  return (
+    <div className="relative">
+      <button
+        className="relative text-xl hover:text-blue-200 transition-colors duration-200"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label={`Notifications (${unreadCount} unread)`}
+      >
+        <FaBell />
+        {unreadCount > 0 && (
+          <span className="absolute -top-2 -right-3 bg-red-500 text-white text-xs font-bold rounded-full px-1.5 py-0.5">
+            {unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-3 w-80 max-w-[90vw] bg-white text-gray-800 rounded-xl shadow-2xl z-50">
+          <div className="flex justify-between items-center px-4 py-3 border-b">
+            <p className="font-semibold">Notifications</p>
+            <div className="flex gap-3 text-sm">
+              {unreadCount > 0 && (
+                <button className="text-blue-600 hover:underline" onClick={markAllRead}>
+                  Mark all read
+                </button>
+              )}
+              <button className="text-gray-600 hover:underline" onClick={() => setShowPreferences(!showPreferences)}>
+                {showPreferences ? "Back" : "Settings"}
+              </button>
+            </div>
+          </div>
+
+          {showPreferences ? (
+            <div className="p-4 space-y-3">
+              <p className="text-sm text-gray-600">Show these as pop-up toasts:</p>
+              {NOTIFICATION_TYPES.map((type) => (
+                <label key={type} className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={toastTypes.includes(type)} onChange={() => toggleToastType(type)} />
+                  {NOTIFICATION_TYPE_LABELS[type]}
+                </label>
+              ))}
+            </div>
+          ) : notifications.length === 0 ? (
+            <p className="text-gray-500 text-center text-sm py-6">You're all caught up.</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y">
+              {notifications.map((n) => (
+                <li key={n.id} className={`px-4 py-3 flex gap-3 ${n.read ? "" : "bg-blue-50"}`}>
+                  <span className={`mt-1.5 w-2 h-2 rounded-full shrink-0 ${TYPE_STYLES[n.type]}`} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-semibold">{n.title}</p>
+                    {n.link ? (
+                      <Link
+                        to={n.link}
+                        className="text-sm text-gray-700 hover:text-blue-600"
+                        onClick={() => {
+                          if (!n.read) markRead(n.id);
+                          setIsOpen(false);
+                          onNavigate();
+                        }}
+                      >
+                        {n.message}
+                      </Link>
+                    ) : (
+                      <p className="text-sm text-gray-700">{n.message}</p>
+                    )}
+                    <p className="text-xs text-gray-500 mt-1">{new Date(n.createdAt).toLocaleString()}</p>
+                    <div className="mt-1 flex gap-3 text-xs">
+                      <button className="text-blue-600 hover:underline" onClick={() => markRead(n.id, !n.read)}>
+                        {n.read ? "Mark unread" : "Mark read"}
+                      </button>
+                      <button className="text-red-600 hover:underline" onClick={() => dismiss(n.id)}>
+                        Dismiss
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
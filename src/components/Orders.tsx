@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { useCan } from "../context/useCan";
+import { ordersApi } from "../api/orders";
+import { Order, ORDER_TRANSITIONS, OrderStatus } from "../types/order";
+import { formatPrice } from "../utils/format";
+
+const STATUS_STYLES: Record<OrderStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  shipped: "bg-blue-100 text-blue-800",
+  delivered: "bg-green-100 text-green-800",
+  cancelled: "bg-gray-200 text-gray-600",
+};
+
+const ACTION_LABELS: Record<OrderStatus, string> = {
+  pending: "Mark Pending",
+  shipped: "Mark Shipped",
+  delivered: "Mark Delivered",
+  cancelled: "Cancel Order",
+};
+
+const Orders = () => {
+  const canManage = useCan("orders:manage");
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [statusFilter, setStatusFilter] = useState<OrderStatus | "">("");
+
+  useEffect(() => {
+    const fetchOrders = async () => {
+      const result = await ordersApi.list();
+      if (!result.ok) {
+        toast.error(`Failed to fetch orders: ${result.error.message}`);
+        console.error("Fetch orders error:", result.error);
+        return;
+      }
+      setOrders(result.data);
+    };
+    fetchOrders();
+  }, []);
+
+  const changeStatus = async (order: Order, status: OrderStatus) => {
+    const result = await ordersApi.updateStatus(order.id, status);
+    if (!result.ok) {
+      toast.error(`Failed to update order: ${result.error.message}`);
+      console.error("Update order error:", result.error);
+      return;
+    }
+    setOrders(orders.map((o) => (o.id === order.id ? result.data : o)));
+    const notRestocked = result.data.notRestocked ?? [];
+    if (notRestocked.length > 0) {
+      const names = notRestocked.map((item) => `${item.name} × ${item.quantity}`).join(", ");
+      toast.error(`Order #${order.id} cancelled, but this stock could not be restored: ${names}`);
+      return;
+    }
+    toast.success(
+      status === "cancelled"
+        ? `Order #${order.id} cancelled and stock restored`
+        : `Order #${order.id} marked ${status}`
+    );
+  };
+
+  const visibleOrders = statusFilter ? orders.filter((o) => o.status === statusFilter) : orders;
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-10 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-5xl mx-auto">
+        <div className="mb-8 flex justify-between items-center">
+          <h1 className="text-3xl font-bold text-gray-800">{canManage ? "All Orders" : "My Orders"}</h1>
+          <select
+            className="p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as OrderStatus | "")}
+          >
+            <option value="">All Statuses</option>
+            {(Object.keys(ORDER_TRANSITIONS) as OrderStatus[]).map((status) => (
+              <option key={status} value={status}>{status}</option>
+            ))}
+          </select>
+        </div>
+
+        {visibleOrders.length === 0 ? (
+          <div className="bg-white p-6 rounded-xl shadow-md">
+            <p className="text-gray-500 text-center py-4">No orders found.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {visibleOrders.map((order) => (
+              <div key={order.id} className="bg-white p-6 rounded-xl shadow-md">
+                <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                  <div>
+                    <p className="font-semibold text-gray-800">Order #{order.id}</p>
+                    <p className="text-sm text-gray-500">
+                      {new Date(order.createdAt).toLocaleString()}
+                      {canManage && ` · ${order.username}`}
+                    </p>
+                  </div>
+                  <span className={`px-3 py-1 rounded-full text-sm font-semibold capitalize ${STATUS_STYLES[order.status]}`}>
+                    {order.status}
+                  </span>
+                </div>
+                <table className="w-full text-left">
+                  <tbody>
+                    {order.items.map((item) => (
+                      <tr key={`${item.productId}:${item.variantId ?? ""}`} className="border-b text-sm">
+                        <td className="py-2 text-gray-800">{item.name}</td>
+                        <td className="py-2 text-gray-600">
+                          {item.quantity} × {formatPrice(item.price)}
+                        </td>
+                        <td className="py-2 text-right text-gray-800">{formatPrice(item.price * item.quantity)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div className="mt-4 flex flex-wrap justify-between items-center gap-4">
+                  <p className="text-lg font-bold text-gray-800">
+                    Total: <span className="text-green-600">{formatPrice(order.total)}</span>
+                  </p>
+                  {canManage && ORDER_TRANSITIONS[order.status].length > 0 && (
+                    <div className="flex gap-3">
+                      {ORDER_TRANSITIONS[order.status].map((status) => (
+                        <button
+                          key={status}
+                          className={`${status === "cancelled" ? "bg-red-600 hover:bg-red-700" : "bg-blue-600 hover:bg-blue-700"} text-white px-4 py-2 rounded-lg font-semibold transition-all duration-200`}
+                          onClick={() => changeStatus(order, status)}
+                        >
+                          {ACTION_LABELS[status]}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Orders;
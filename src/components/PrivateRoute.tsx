@@ -1,11 +1,30 @@
-import { Navigate } from "react-router-dom";
+import { Navigate, useLocation } from "react-router-dom";
 import { useAuth } from "../context/useAuth";
 import { JSX } from "react";
+import { Role } from "../types/user";
+import { hasPermission, Permission } from "../utils/permissions";
 
-const PrivateRoute: React.FC<{ role: string; children: JSX.Element }> = ({ role, children }) => {
+interface PrivateRouteProps {
+  role?: Role | Role[]; // Any of these roles
+  permission?: Permission | Permission[]; // All of these permissions
+  children: JSX.Element;
+}
+
+const PrivateRoute: React.FC<PrivateRouteProps> = ({ role, permission, children }) => {
   const { user } = useAuth();
-  if (!user || user.role !== role) return <Navigate to="/" />;
+  const location = useLocation();
+  if (!user) {
+    const next = encodeURIComponent(location.pathname + location.search);
+    return <Navigate to={`/login?next=${next}`} replace />;
+  }
+
+  const roles = role === undefined ? [] : ([] as Role[]).concat(role);
+  const permissions = permission === undefined ? [] : ([] as Permission[]).concat(permission);
+  const allowed =
+    (roles.length === 0 || roles.includes(user.role)) &&
+    permissions.every((p) => hasPermission(user, p));
+  if (!allowed) return <Navigate to="/forbidden" replace />;
   return children;
 };
 
-export default PrivateRoute;
\ No newline at end of file
+export default PrivateRoute;
@@ -0,0 +1,102 @@
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { FaBarcode, FaFileCsv, FaFileExcel, FaFileCode, FaFilePdf, FaUpload } from "react-icons/fa";
+import { ProductFilters, productsApi } from "../api/products";
+import { useAuth } from "../context/useAuth";
+import { Product } from "../types/product";
+import { downloadBlob } from "../utils/download";
+import { buildInventoryReport } from "../utils/inventoryReport";
+import { productsToCSV } from "../utils/productCsv";
+import { productsToJSON } from "../utils/productJson";
+import { buildProductLabels } from "../utils/productLabels";
+import { productsToXLSX } from "../utils/productXlsx";
+import ImportProductsWizard from "./ImportProductsWizard";
+
+interface ProductDataActionsProps {
+  filters: ProductFilters; // Exports contain exactly the products the list is filtered to
+  onImported: () => void; // The wizard saves products itself; this just refreshes the list
+}
+
+type ExportFormat = "CSV" | "Excel" | "JSON" | "PDF" | "Labels";
+
+const EXPORTERS: Record<ExportFormat, (products: Product[], username: string) => void | Promise<void>> = {
+  CSV: (products) =>
+    downloadBlob(new Blob([productsToCSV(products)], { type: "text/csv;charset=utf-8;" }), "products.csv"),
+  Excel: async (products) => downloadBlob(await productsToXLSX(products), "products.xlsx"),
+  JSON: (products) =>
+    downloadBlob(new Blob([productsToJSON(products)], { type: "application/json" }), "products.json"),
+  PDF: async (products, username) => {
+    const report = await buildInventoryReport(products, { generatedBy: username });
+    report.save("products.pdf");
+  },
+  Labels: async (products) => {
+    const labels = await buildProductLabels(products);
+    labels.save("labels.pdf");
+  },
+};
+
+const ProductDataActions: React.FC<ProductDataActionsProps> = ({ filters, onImported }) => {
+  const { user } = useAuth();
+  const [isImporting, setIsImporting] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const exportProducts = async (format: ExportFormat) => {
+    const result = await productsApi.list(filters);
+    if (!result.ok) {
+      toast.error(`Failed to export to ${format}: ${result.error.message}`);
+      console.error(`Export to ${format} error:`, result.error);
+      return;
+    }
+    if (result.data.length === 0) {
+      toast.error("No products match the current filters");
+      return;
+    }
+    setExporting(format);
+    try {
+      await EXPORTERS[format](result.data, user?.username ?? "unknown");
+      toast.success(`${result.data.length} product(s) exported to ${format}!`);
+    } catch (error) {
+      toast.error(`Failed to export to ${format}!`);
+      console.error(`Export to ${format} error:`, error);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const buttons: { format: ExportFormat; icon: React.ReactNode; className: string }[] = [
+    { format: "CSV", icon: <FaFileCsv className="mr-2" />, className: "bg-green-600 hover:bg-green-700" },
+    { format: "Excel", icon: <FaFileExcel className="mr-2" />, className: "bg-emerald-700 hover:bg-emerald-800" },
+    { format: "JSON", icon: <FaFileCode className="mr-2" />, className: "bg-gray-700 hover:bg-gray-800" },
+    { format: "PDF", icon: <FaFilePdf className="mr-2" />, className: "bg-blue-600 hover:bg-blue-700" },
+    { format: "Labels", icon: <FaBarcode className="mr-2" />, className: "bg-slate-600 hover:bg-slate-700" },
+  ];
+
+  return (
+    <div className="mb-8 flex flex-wrap gap-4 justify-end">
+      {buttons.map(({ format, icon, className }) => (
+        <button
+          key={format}
+          onClick={() => exportProducts(format)}
+          disabled={exporting !== null}
+          className={`${className} text-white px-4 py-2 rounded-lg font-semibold transition-all duration-200 flex items-center disabled:opacity-60 disabled:cursor-not-allowed`}
+        >
+          {icon}
+          {exporting === format ? "Exporting..." : `Export ${format}`}
+        </button>
+      ))}
+      <button
+        onClick={() => setIsImporting(true)}
+        className="bg-purple-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-purple-700 transition-all duration-200 flex items-center"
+      >
+        <FaUpload className="mr-2" />
+        Import
+      </button>
+
+      {isImporting && (
+        <ImportProductsWizard onClose={() => setIsImporting(false)} onImported={onImported} />
+      )}
+    </div>
+  );
+};
+
+export default ProductDataActions;
@@ -0,0 +1,273 @@
+import { useEffect, useState } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import toast from "react-hot-toast";
+import { useCan } from "../context/useCan";
+import { useCart } from "../context/useCart";
+import { productsApi } from "../api/products";
+import { Product, ProductVariant } from "../types/product";
+import { useReorderPoints } from "../hooks/useReorderPoints";
+import { formatPrice } from "../utils/format";
+import { buildProductLabels } from "../utils/productLabels";
+import { isLowStock } from "../utils/reorderPoint";
+import { hasVariants, priceRange, sameOptions, variantLabel, variantName } from "../utils/variants";
+import AdjustStockModal from "./AdjustStockModal";
+import Barcode from "./Barcode";
+import EditProductModal from "./EditProductModal";
+import StockHistory from "./StockHistory";
+import ProductGallery from "./ProductGallery";
+
+const stockStatus = (stock: number, reorderPoint: number) => {
+  if (stock === 0) return { label: "Out of stock", className: "text-red-600" };
+  if (isLowStock(stock, reorderPoint)) return { label: `Low stock: only ${stock} left`, className: "text-orange-600" };
+  return { label: `In stock (${stock} available)`, className: "text-green-600" };
+};
+
+const ProductDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const variantParam = searchParams.get("variant"); // Set when a variant's code was scanned
+  const canEdit = useCan("products:write");
+  const canAdjustStock = useCan("stock:adjust");
+  const canUseCart = useCan("cart:use");
+  const canViewHistory = useCan("reports:view");
+  const { addItem } = useCart();
+  const { reorderPointFor, variantReorderPointFor } = useReorderPoints();
+  const [product, setProduct] = useState<Product | null>(null);
+  const [options, setOptions] = useState<Record<string, string>>({}); // Chosen attribute values
+  const [notFound, setNotFound] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isAdjusting, setIsAdjusting] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+
+  useEffect(() => {
+    if (!id) return;
+    const fetchProduct = async () => {
+      setNotFound(false);
+      const result = await productsApi.get(id);
+      if (!result.ok) {
+        if (result.error.status === 404) {
+          setNotFound(true);
+        } else {
+          toast.error(`Failed to fetch product: ${result.error.message}`);
+          console.error("Fetch product error:", result.error);
+        }
+        return;
+      }
+      setProduct(result.data);
+      // Start from the linked variant, or else the first one that can be bought
+      const variants = result.data.variants ?? [];
+      const initial = variants.find((v) => v.id === variantParam) ?? variants.find((v) => v.stock > 0) ?? variants[0];
+      setOptions(initial?.options ?? {});
+    };
+    fetchProduct();
+  }, [id, variantParam]);
+
+  if (notFound) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
+        <div className="w-full max-w-md bg-white rounded-xl shadow-lg p-8 text-center">
+          <p className="text-5xl font-extrabold text-gray-400 mb-4">404</p>
+          <h2 className="text-2xl font-bold text-gray-800 mb-2">Product not found</h2>
+          <p className="text-gray-600 mb-6">This product does not exist or has been removed.</p>
+          <Link
+            to="/"
+            className="inline-block bg-blue-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-blue-700 hover:scale-105 transition-all duration-200"
+          >
+            Back to Products
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (!product) {
+    return <p className="text-gray-500 text-center py-10">Loading product...</p>;
+  }
+
+  // Products sold in variants show the chosen one's price and stock
+  const withVariants = hasVariants(product);
+  const variant: ProductVariant | undefined = product.variants?.find((v) => sameOptions(v.options, options));
+  const range = priceRange(product);
+  const status = withVariants
+    ? variant
+      ? stockStatus(variant.stock, variantReorderPointFor(product, variant))
+      : { label: "This combination is not available", className: "text-gray-500" }
+    : stockStatus(product.stock, reorderPointFor(product));
+  const available = withVariants ? variant?.stock ?? 0 : product.stock;
+  const displayName = variant ? variantName(product, variant) : product.name;
+
+  const sku = variant ? variant.sku : product.sku;
+  const barcode = variant ? variant.barcode : withVariants ? undefined : product.barcode;
+
+  // Opens the labels in a new tab with the print dialog up
+  const printLabels = async () => {
+    try {
+      const labels = await buildProductLabels([product]);
+      labels.autoPrint();
+      window.open(labels.output("bloburl"), "_blank");
+    } catch (error) {
+      toast.error("Failed to create labels!");
+      console.error("Print labels error:", error);
+    }
+  };
+
+  const addToCart = () => {
+    if (addItem(product, 1, variant)) {
+      toast.success(`Added "${displayName}" to your cart`);
+    } else {
+      toast.error(`Only ${available} of "${displayName}" in stock`, { id: `stock-cap-${product.id}` });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-10 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-5xl mx-auto">
+        <Link to="/" className="text-blue-600 hover:underline font-medium">
+          ← Back to Products
+        </Link>
+
+        <div className="mt-6 bg-white rounded-xl shadow-md overflow-hidden grid grid-cols-1 md:grid-cols-2">
+          <ProductGallery images={product.images ?? []} alt={product.name} />
+          <div className="p-8 flex flex-col">
+            <p className="text-sm font-semibold text-gray-500 uppercase tracking-wide">{product.category}</p>
+            <h1 className="text-3xl font-bold text-gray-800 mt-2">{product.name}</h1>
+            <p className="text-2xl font-semibold text-green-600 mt-4">
+              {variant
+                ? formatPrice(variant.price)
+                : range.min === range.max
+                  ? formatPrice(product.price)
+                  : `${formatPrice(range.min)} – ${formatPrice(range.max)}`}
+            </p>
+            {withVariants && (
+              <div className="mt-4 grid grid-cols-2 gap-4">
+                {product.attributes!.map((attribute) => (
+                  <div key={attribute.name}>
+                    <label className="block text-sm font-semibold text-gray-700 mb-1">{attribute.name}</label>
+                    <select
+                      value={options[attribute.name] ?? ""}
+                      onChange={(e) => setOptions({ ...options, [attribute.name]: e.target.value })}
+                      className="w-full p-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+                    >
+                      <option value="" disabled>
+                        Choose {attribute.name}
+                      </option>
+                      {attribute.values.map((value) => (
+                        <option key={value} value={value}>{value}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+            {sku && <p className="text-sm text-gray-500 mt-2">SKU: {sku}</p>}
+            {barcode && <Barcode value={barcode} className="mt-2 h-20" />}
+            <p className={`mt-2 font-semibold ${status.className}`}>{status.label}</p>
+            <p className="text-gray-700 mt-6 whitespace-pre-line">{product.description}</p>
+
+            <div className="mt-auto pt-8 flex gap-3">
+              {canUseCart && (
+                <button
+                  className="flex-1 bg-blue-600 text-white py-3 rounded-lg font-semibold hover:bg-blue-700 hover:scale-105 transition-all duration-200 disabled:bg-gray-400 disabled:hover:scale-100 disabled:cursor-not-allowed"
+                  disabled={available === 0}
+                  onClick={addToCart}
+                >
+                  {withVariants && !variant ? "Unavailable" : available === 0 ? "Out of Stock" : "Add to Cart"}
+                </button>
+              )}
+              {canEdit && (
+                <button
+                  className="flex-1 bg-yellow-600 text-white py-3 rounded-lg font-semibold hover:bg-yellow-700 hover:scale-105 transition-all duration-200"
+                  onClick={() => setIsEditing(true)}
+                >
+                  Edit
+                </button>
+              )}
+              {canAdjustStock && (
+                <button
+                  className="flex-1 bg-indigo-600 text-white py-3 rounded-lg font-semibold hover:bg-indigo-700 hover:scale-105 transition-all duration-200"
+                  onClick={() => setIsAdjusting(true)}
+                >
+                  Adjust Stock
+                </button>
+              )}
+              {(canEdit || canAdjustStock) && (
+                <button
+                  className="flex-1 bg-gray-700 text-white py-3 rounded-lg font-semibold hover:bg-gray-800 hover:scale-105 transition-all duration-200"
+                  onClick={printLabels}
+                >
+                  Print Labels
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {withVariants && canAdjustStock && (
+          <div className="mt-8 bg-white p-6 rounded-xl shadow-md">
+            <h2 className="text-xl font-semibold text-gray-800 mb-4">Variants</h2>
+            <table className="w-full text-left">
+              <thead>
+                <tr className="border-b text-sm font-semibold text-gray-700">
+                  <th className="py-2">Variant</th>
+                  <th className="py-2">SKU</th>
+                  <th className="py-2">Barcode</th>
+                  <th className="py-2 text-right">Price</th>
+                  <th className="py-2 text-right">Stock</th>
+                  <th className="py-2 text-right">Reorder Point</th>
+                </tr>
+              </thead>
+              <tbody>
+                {product.variants!.map((v) => {
+                  const reorderPoint = variantReorderPointFor(product, v);
+                  return (
+                    <tr key={v.id} className="border-b text-sm">
+                      <td className="py-2 text-gray-800">{variantLabel(product.attributes, v)}</td>
+                      <td className="py-2 text-gray-600">{v.sku}</td>
+                      <td className="py-2 text-gray-600">{v.barcode || "-"}</td>
+                      <td className="py-2 text-right text-gray-800">{formatPrice(v.price)}</td>
+                      <td
+                        className={`py-2 text-right ${
+                          isLowStock(v.stock, reorderPoint) ? "text-red-600 font-semibold" : "text-gray-800"
+                        }`}
+                      >
+                        {v.stock}
+                      </td>
+                      <td className="py-2 text-right text-gray-600">{reorderPoint}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {canViewHistory && <StockHistory productId={product.id} version={historyVersion} />}
+      </div>
+
+      {isEditing && (
+        <EditProductModal
+          product={product}
+          onClose={() => setIsEditing(false)}
+          onSaved={(saved) => {
+            setProduct(saved);
+            setIsEditing(false);
+          }}
+        />
+      )}
+      {isAdjusting && (
+        <AdjustStockModal
+          product={product}
+          variantId={variant?.id}
+          onClose={() => setIsAdjusting(false)}
+          onSaved={(saved) => {
+            setProduct(saved);
+            setIsAdjusting(false);
+            setHistoryVersion((v) => v + 1);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ProductDetail;
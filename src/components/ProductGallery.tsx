@@ -0,0 +1,51 @@
+import { useState } from "react";
+import { ProductPhoto } from "../types/product";
+import { thumbnailSrc } from "../utils/images";
+import ImageLightbox from "./ImageLightbox";
+import ProductImage from "./ProductImage";
+
+interface ProductGalleryProps {
+  images: ProductPhoto[];
+  alt: string;
+}
+
+// Selected image with a thumbnail strip underneath; clicking it opens the lightbox
+const ProductGallery: React.FC<ProductGalleryProps> = ({ images, alt }) => {
+  const [selected, setSelected] = useState(0);
+  const [isLightboxOpen, setIsLightboxOpen] = useState(false);
+  const index = selected < images.length ? selected : 0; // The list can shrink after an edit
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => images.length > 0 && setIsLightboxOpen(true)}
+        className={`block w-full ${images.length > 0 ? "cursor-zoom-in" : "cursor-default"}`}
+      >
+        <ProductImage src={images[index]?.url} alt={alt} className="w-full h-96 object-cover" />
+      </button>
+      {images.length > 1 && (
+        <div className="flex gap-2 p-3 overflow-x-auto">
+          {images.map((image, i) => (
+            <button
+              key={image.url}
+              type="button"
+              onClick={() => setSelected(i)}
+              className={`shrink-0 w-16 h-16 rounded-lg overflow-hidden border-2 ${
+                i === index ? "border-blue-500" : "border-transparent hover:border-gray-300"
+              }`}
+              aria-label={`Show image ${i + 1}`}
+            >
+              <ProductImage src={thumbnailSrc(image)} alt="" className="w-full h-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+      {isLightboxOpen && (
+        <ImageLightbox images={images} startIndex={index} alt={alt} onClose={() => setIsLightboxOpen(false)} />
+      )}
+    </div>
+  );
+};
+
+export default ProductGallery;
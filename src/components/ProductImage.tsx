@@ -0,0 +1,24 @@
+import { useState } from "react";
+import placeholder from "../assets/product-placeholder.svg";
+
+interface ProductImageProps {
+  src?: string;
+  alt: string;
+  className?: string;
+}
+
+// Shows the bundled placeholder when there is no image or it fails to load
+const ProductImage: React.FC<ProductImageProps> = ({ src, alt, className }) => {
+  const [failedSrc, setFailedSrc] = useState<string | null>(null);
+
+  return (
+    <img
+      src={src && src !== failedSrc ? src : placeholder}
+      alt={alt}
+      className={className}
+      onError={() => setFailedSrc(src ?? null)}
+    />
+  );
+};
+
+export default ProductImage;
@@ -1,123 +1,154 @@
-import { useState, useEffect } from "react";
-import axios from "axios";
-import { useAuth } from "../context/useAuth";
+import { useState, useEffect, useCallback } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { FaImages } from "react-icons/fa";
+import { useCan } from "../context/useCan";
+import { useCart } from "../context/useCart";
 import AddProductForm from "./AddProductForm";
+import AdjustStockModal from "./AdjustStockModal";
+import ConfirmDialog from "./ConfirmDialog";
+import EditProductModal from "./EditProductModal";
+import ImageLightbox from "./ImageLightbox";
+import ProductImage from "./ProductImage";
+import ProductDataActions from "./ProductDataActions";
+import ScanLookup from "./ScanLookup";
 import toast from "react-hot-toast";
+import { productsApi } from "../api/products";
+import { trashApi } from "../api/trash";
+import { useCategories } from "../hooks/useCategories";
+import { useReorderPoints } from "../hooks/useReorderPoints";
+import { formatPrice } from "../utils/format";
+import { readListParams, SORT_FIELDS, withListChanges } from "../utils/productFilters";
+import { primaryImage, thumbnailSrc } from "../utils/images";
+import { hasVariants, priceRange } from "../utils/variants";
+import { NewProduct, Product, ProductVariant } from "../types/product";
 
-interface Product {
-  id: string;
-  name: string;
-  category: string;
-  price: number;
-  stock: number;
-  description: string;
-  url?: string;
-}
+const PER_PAGE = 9;
+const UNDO_DURATION_MS = 6000; // How long the Undo button stays up after a delete
 
 const ProductList = () => {
-  const { user } = useAuth();
+  const canWrite = useCan("products:write");
+  const canDelete = useCan("products:delete");
+  const canAdjustStock = useCan("stock:adjust");
+  const canUseCart = useCan("cart:use");
+  const { items: cartItems, addItem } = useCart();
+  const { categories } = useCategories();
+  const { isLow } = useReorderPoints();
   const [products, setProducts] = useState<Product[]>([]);
-  const [search, setSearch] = useState("");
-  const [categoryFilter, setCategoryFilter] = useState("");
-  const [sortBy, setSortBy] = useState("");
+  const [totalItems, setTotalItems] = useState(0);
+  const [totalPages, setTotalPages] = useState(1);
+  // Filters live in the query string so a filtered view can be bookmarked
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { search, category: categoryFilter, sortBy, page } = readListParams(searchParams);
+  const [searchInput, setSearchInput] = useState(search);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [adjustingProduct, setAdjustingProduct] = useState<Product | null>(null);
+  const [adjustingVariant, setAdjustingVariant] = useState<ProductVariant | undefined>(); // From a scanned code
+  const [deletingProduct, setDeletingProduct] = useState<Product | null>(null);
+  const [viewingImagesOf, setViewingImagesOf] = useState<Product | null>(null); // Lightbox
   const [isAddFormOpen, setIsAddFormOpen] = useState(false); // Toggle for AddProductForm
+  const [isScanning, setIsScanning] = useState(false); // Barcode scanner input
 
+  // Changing a filter always goes back to the first page
+  const updateParams = useCallback(
+    (changes: Record<string, string>) => setSearchParams((params) => withListChanges(params, changes)),
+    [setSearchParams]
+  );
+
+  // Follow the URL when it changes under us (back/forward, shared links)
   useEffect(() => {
-    fetchProducts();
-  }, []);
+    setSearchInput(search);
+  }, [search]);
 
-  const fetchProducts = async () => {
-    try {
-      const response = await axios.get("https://react-store-2wpq.onrender.com/products");
-      const fetchedProducts: Product[] = response.data;
-      console.log("Fetched response:", response.data);
-      setProducts(fetchedProducts);
-      fetchedProducts.forEach((product) => {
-        if (product.stock < 10) {
-          toast.error(`Low stock alert: ${product.name} has only ${product.stock} units left!`, {
-            id: `low-stock-${product.id}`,
-          });
-        }
-      });
-    } catch (error) {
-      toast.error("Failed to fetch products!");
-      console.error("Fetch products error:", error);
-    }
-  };
+  // Debounce typing so every keystroke doesn't hit the server
+  useEffect(() => {
+    if (searchInput === search) return;
+    const timer = setTimeout(() => updateParams({ q: searchInput }), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput, search, updateParams]);
 
-  const addProduct = async (product: Omit<Product, "id">) => {
-    if (products.some((p) => p.name.toLowerCase() === product.name.toLowerCase())) {
-      toast.error(`Duplicate entry: "${product.name}" already exists!`);
+  const fetchProducts = useCallback(async () => {
+    const result = await productsApi.query({
+      q: search,
+      category: categoryFilter,
+      sort: SORT_FIELDS[sortBy],
+      page,
+      perPage: PER_PAGE,
+    });
+    if (!result.ok) {
+      toast.error(`Failed to fetch products: ${result.error.message}`);
+      console.error("Fetch products error:", result.error);
       return;
     }
-    try {
-      const response = await axios.post("https://react-store-2wpq.onrender.com/products", product);
-      setProducts([...products, response.data]);
-      toast.success(`Product "${product.name}" added successfully!`);
-      setIsAddFormOpen(false); // Close form after adding
-    } catch (error) {
-      toast.error("Failed to add product!");
-      console.error("Add product error:", error);
+    setProducts(result.data.data);
+    setTotalItems(result.data.items);
+    setTotalPages(Math.max(result.data.pages, 1));
+  }, [search, categoryFilter, sortBy, page]);
+
+  useEffect(() => {
+    fetchProducts();
+  }, [fetchProducts]);
+
+  const addProduct = async (product: NewProduct) => {
+    const result = await productsApi.create(product);
+    if (!result.ok) {
+      toast.error(`Failed to add product: ${result.error.message}`);
+      console.error("Add product error:", result.error);
+      return false;
     }
+    toast.success(`Product "${product.name}" added successfully!`);
+    setIsAddFormOpen(false); // Close form after adding
+    fetchProducts(); // The new product may land on any page
+    return true;
   };
 
-  const updateProduct = async (updatedProduct: Product) => {
-    if (
-      products.some(
-        (p) =>
-          p.name.toLowerCase() === updatedProduct.name.toLowerCase() &&
-          p.id !== updatedProduct.id
-      )
-    ) {
-      toast.error(`Duplicate entry: "${updatedProduct.name}" already exists!`);
+  const undoDelete = async (product: Product) => {
+    const result = await trashApi.restore(product.id);
+    if (!result.ok) {
+      toast.error(`Failed to restore product: ${result.error.message}`);
+      console.error("Restore product error:", result.error);
       return;
     }
-    try {
-      const response = await axios.put(
-        `https://react-store-2wpq.onrender.com/products/${updatedProduct.id}`,
-        updatedProduct
-      );
-      setProducts(products.map((p) => (p.id === updatedProduct.id ? response.data : p)));
-      toast.success(`Product "${updatedProduct.name}" updated successfully!`);
-      if (response.data.stock < 10) {
-        toast.error(`Low stock alert: ${response.data.name} has only ${response.data.stock} units left!`, {
-          id: `low-stock-${response.data.id}`,
-        });
-      }
-      setEditingProduct(null);
-    } catch (error) {
-      toast.error("Failed to update product!");
-      console.error("Update product error:", error);
-    }
+    toast.success(`Product "${product.name}" restored`);
+    fetchProducts();
   };
 
-  const deleteProduct = async (id: string) => {
-    try {
-      const productToDelete = products.find((p) => p.id === id);
-      await axios.delete(`https://react-store-2wpq.onrender.com/products/${id}`);
-      setProducts(products.filter((p) => p.id !== id));
-      toast.success(`Product "${productToDelete?.name}" deleted successfully!`);
-    } catch (error) {
-      toast.error("Failed to delete product!");
-      console.error("Delete product error:", error);
+  const deleteProduct = async (product: Product) => {
+    setDeletingProduct(null);
+    const result = await productsApi.delete(product.id);
+    if (!result.ok) {
+      toast.error(`Failed to delete product: ${result.error.message}`);
+      console.error("Delete product error:", result.error);
+      return;
     }
+    toast.success(
+      (t) => (
+        <span className="flex items-center gap-3">
+          Product "{product.name}" moved to trash
+          <button
+            className="text-blue-600 font-semibold hover:underline"
+            onClick={() => {
+              toast.dismiss(t.id);
+              undoDelete(product);
+            }}
+          >
+            Undo
+          </button>
+        </span>
+      ),
+      { duration: UNDO_DURATION_MS }
+    );
+    fetchProducts(); // Pull the next product onto this page
   };
 
-  const filteredProducts = products
-    .filter((p) => p.name.toLowerCase().includes(search.toLowerCase()))
-    .filter((p) => (categoryFilter ? p.category === categoryFilter : true))
-    .sort((a, b) => {
-      if (sortBy === "price-asc") return a.price - b.price;
-      if (sortBy === "price-desc") return b.price - a.price;
-      if (sortBy === "name-asc") return a.name.localeCompare(b.name);
-      if (sortBy === "name-desc") return b.name.localeCompare(a.name);
-      return 0;
-    });
+  const cartQuantity = (productId: string) =>
+    cartItems.find((i) => i.productId === productId)?.quantity ?? 0;
 
-  const handleEditSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (editingProduct) updateProduct(editingProduct);
+  const addToCart = (product: Product) => {
+    if (addItem(product)) {
+      toast.success(`Added "${product.name}" to your cart`);
+    } else {
+      toast.error(`Only ${product.stock} of "${product.name}" in stock`, { id: `stock-cap-${product.id}` });
+    }
   };
 
   return (
@@ -126,18 +157,39 @@ const ProductList = () => {
         {/* Header */}
         <div className="mb-8 flex justify-between items-center">
           <h1 className="text-3xl font-bold text-gray-800">Product Management</h1>
-          {user?.role === "admin" && (
-            <button
-              onClick={() => setIsAddFormOpen(!isAddFormOpen)}
-              className="bg-blue-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-blue-700 hover:scale-105 transition-all duration-200"
-            >
-              {isAddFormOpen ? "Close Form" : "Add New Product"}
-            </button>
-          )}
+          <div className="flex gap-3">
+            {(canWrite || canAdjustStock) && (
+              <button
+                onClick={() => setIsScanning(!isScanning)}
+                className="bg-gray-700 text-white px-6 py-2 rounded-lg font-semibold hover:bg-gray-800 hover:scale-105 transition-all duration-200"
+              >
+                {isScanning ? "Stop Scanning" : "Scan"}
+              </button>
+            )}
+            {canWrite && (
+              <button
+                onClick={() => setIsAddFormOpen(!isAddFormOpen)}
+                className="bg-blue-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-blue-700 hover:scale-105 transition-all duration-200"
+              >
+                {isAddFormOpen ? "Close Form" : "Add New Product"}
+              </button>
+            )}
+          </div>
         </div>
 
+        {isScanning && (
+          <ScanLookup
+            canAdjustStock={canAdjustStock}
+            isPaused={adjustingProduct !== null}
+            onAdjust={(product, variant) => {
+              setAdjustingProduct(product);
+              setAdjustingVariant(variant);
+            }}
+          />
+        )}
+
         {/* Add Product Form (Collapsible) */}
-        {user?.role === "admin" && isAddFormOpen && (
+        {canWrite && isAddFormOpen && (
           <div className="mb-8">
             <AddProductForm onAdd={addProduct} />
           </div>
@@ -151,8 +203,8 @@ const ProductList = () => {
               type="text"
               placeholder="Search products..."
               className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
-              value={search}
-              onChange={(e) => setSearch(e.target.value)}
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
             />
           </div>
           <div className="flex-1">
@@ -160,12 +212,14 @@ const ProductList = () => {
             <select
               className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
               value={categoryFilter}
-              onChange={(e) => setCategoryFilter(e.target.value)}
+              onChange={(e) => updateParams({ category: e.target.value })}
             >
               <option value="">All Categories</option>
-              <option value="Electronics">Electronics</option>
-              <option value="Clothing">Clothing</option>
-              <option value="Books">Books</option>
+              {categories.map((category) => (
+                <option key={category.id} value={category.name}>
+                  {category.name}{category.archived ? " (archived)" : ""}
+                </option>
+              ))}
             </select>
           </div>
           <div className="flex-1">
@@ -173,7 +227,7 @@ const ProductList = () => {
             <select
               className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
               value={sortBy}
-              onChange={(e) => setSortBy(e.target.value)}
+              onChange={(e) => updateParams({ sort: e.target.value })}
             >
               <option value="">Default</option>
               <option value="price-asc">Price: Low to High</option>
@@ -184,161 +238,166 @@ const ProductList = () => {
           </div>
         </div>
 
+        {/* Export and Import, scoped to the filters above */}
+        {canWrite && (
+          <ProductDataActions
+            filters={{ q: search, category: categoryFilter, sort: SORT_FIELDS[sortBy] }}
+            onImported={fetchProducts}
+          />
+        )}
+
+        {/* Image Lightbox */}
+        {viewingImagesOf && (
+          <ImageLightbox
+            images={viewingImagesOf.images ?? []}
+            alt={viewingImagesOf.name}
+            onClose={() => setViewingImagesOf(null)}
+          />
+        )}
+
         {/* Edit Modal */}
         {editingProduct && (
-          <div
-            className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-60 z-50"
-            onClick={(e) => { if (e.target === e.currentTarget) setEditingProduct(null); }}
-          >
-            <div className="bg-white p-8 rounded-xl shadow-2xl w-full max-w-lg transform transition-all duration-300 scale-95">
-              <h2 className="text-2xl font-bold text-gray-800 mb-6">Edit Product</h2>
-              <form onSubmit={handleEditSubmit} className="space-y-6">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div>
-                    <label className="block text-sm font-semibold text-gray-700 mb-2">Name</label>
-                    <input
-                      type="text"
-                      value={editingProduct.name}
-                      onChange={(e) => setEditingProduct({ ...editingProduct, name: e.target.value })}
-                      className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
-                      required
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-semibold text-gray-700 mb-2">Category</label>
-                    <select
-                      value={editingProduct.category}
-                      onChange={(e) => setEditingProduct({ ...editingProduct, category: e.target.value })}
-                      className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
-                      required
-                    >
-                      <option value="">Select Category</option>
-                      <option value="Electronics">Electronics</option>
-                      <option value="Clothing">Clothing</option>
-                      <option value="Books">Books</option>
-                    </select>
-                  </div>
-                  <div>
-                    <label className="block text-sm font-semibold text-gray-700 mb-2">Price</label>
-                    <input
-                      type="number"
-                      value={editingProduct.price}
-                      onChange={(e) => setEditingProduct({ ...editingProduct, price: Number(e.target.value) })}
-                      className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
-                      min="0"
-                      step="0.01"
-                      required
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-semibold text-gray-700 mb-2">Stock</label>
-                    <input
-                      type="number"
-                      value={editingProduct.stock}
-                      onChange={(e) => setEditingProduct({ ...editingProduct, stock: Number(e.target.value) })}
-                      className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
-                      min="0"
-                      required
-                    />
-                  </div>
-                  <div className="md:col-span-2">
-                    <label className="block text-sm font-semibold text-gray-700 mb-2">Description</label>
-                    <textarea
-                      value={editingProduct.description}
-                      onChange={(e) => setEditingProduct({ ...editingProduct, description: e.target.value })}
-                      className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
-                      rows={4}
-                    />
-                  </div>
-                  <div className="md:col-span-2">
-                    <label className="block text-sm font-semibold text-gray-700 mb-2">Product URL (optional)</label>
-                    <input
-                      type="url"
-                      value={editingProduct.url || ""}
-                      onChange={(e) => setEditingProduct({ ...editingProduct, url: e.target.value })}
-                      className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
-                      placeholder="https://example.com/product"
-                    />
-                  </div>
-                </div>
-                <div className="mt-6 flex gap-4 justify-end">
-                  <button
-                    type="submit"
-                    className="bg-blue-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-blue-700 hover:scale-105 transition-all duration-200"
-                  >
-                    Save
-                  </button>
-                  <button
-                    type="button"
-                    className="bg-gray-500 text-white px-6 py-2 rounded-lg font-semibold hover:bg-gray-600 hover:scale-105 transition-all duration-200"
-                    onClick={() => setEditingProduct(null)}
-                  >
-                    Cancel
-                  </button>
-                </div>
-              </form>
-            </div>
-          </div>
+          <EditProductModal
+            product={editingProduct}
+            onClose={() => setEditingProduct(null)}
+            onSaved={(saved) => {
+              setProducts(products.map((p) => (p.id === saved.id ? saved : p)));
+              setEditingProduct(null);
+            }}
+          />
+        )}
+        {deletingProduct && (
+          <ConfirmDialog
+            title="Delete Product"
+            message={`Move "${deletingProduct.name}" to the trash? An admin can restore it from there.`}
+            confirmLabel="Delete"
+            onConfirm={() => deleteProduct(deletingProduct)}
+            onCancel={() => setDeletingProduct(null)}
+          />
+        )}
+        {adjustingProduct && (
+          <AdjustStockModal
+            product={adjustingProduct}
+            variantId={adjustingVariant?.id}
+            onClose={() => {
+              setAdjustingProduct(null);
+              setAdjustingVariant(undefined);
+            }}
+            onSaved={(saved) => {
+              setProducts(products.map((p) => (p.id === saved.id ? saved : p)));
+              setAdjustingProduct(null);
+              setAdjustingVariant(undefined);
+            }}
+          />
         )}
 
         {/* Product List */}
         <div className="bg-white p-6 rounded-xl shadow-md">
-          <h2 className="text-xl font-semibold text-gray-800 mb-4">Product Inventory</h2>
-          {filteredProducts.length === 0 ? (
+          <div className="mb-4 flex justify-between items-center">
+            <h2 className="text-xl font-semibold text-gray-800">Product Inventory</h2>
+            {totalItems > 0 && (
+              <p className="text-sm text-gray-600">
+                Showing {(page - 1) * PER_PAGE + 1}-{Math.min(page * PER_PAGE, totalItems)} of {totalItems} products
+              </p>
+            )}
+          </div>
+          {products.length === 0 ? (
             <p className="text-gray-500 text-center py-4">No products found.</p>
           ) : (
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-              {filteredProducts.map((product) => (
+              {products.map((product) => (
                 <div
                   key={product.id}
                   className="bg-gray-50 rounded-lg shadow-sm overflow-hidden hover:shadow-md transition-all duration-300 hover:scale-102"
                 >
-                  {product.url ? (
-                    <img
-                      src={product.url}
-                      alt={product.name}
-                      className="w-full h-48 object-cover"
-                      onError={(e) => { e.currentTarget.src = "https://via.placeholder.com/200x300?text=No+Image"; }}
-                    />
-                  ) : (
-                    <div className="w-full h-48 bg-gray-200 flex items-center justify-center">
-                      <span className="text-gray-500 font-medium">No Image</span>
-                    </div>
-                  )}
+                  <div className="relative">
+                    <Link to={`/products/${product.id}`}>
+                      <ProductImage
+                        src={thumbnailSrc(primaryImage(product))}
+                        alt={product.name}
+                        className="w-full h-48 object-cover"
+                      />
+                    </Link>
+                    {(product.images?.length ?? 0) > 0 && (
+                      <button
+                        onClick={() => setViewingImagesOf(product)}
+                        className="absolute bottom-2 right-2 flex items-center gap-1 bg-black/60 text-white text-xs font-semibold px-2 py-1 rounded-full hover:bg-black/80"
+                        aria-label={`View images of ${product.name}`}
+                      >
+                        <FaImages />
+                        {product.images!.length}
+                      </button>
+                    )}
+                  </div>
                   <div className="p-5">
-                    <h3 className="text-lg font-semibold text-gray-800 truncate">{product.name}</h3>
+                    <h3 className="text-lg font-semibold text-gray-800 truncate">
+                      <Link to={`/products/${product.id}`} className="hover:text-blue-600">
+                        {product.name}
+                      </Link>
+                    </h3>
                     <p className="text-sm text-gray-600 mt-1">{product.category}</p>
-                    <p className="text-lg font-semibold text-green-600 mt-2">₹{product.price.toFixed(2)}</p>
-                    <p className={`text-sm mt-1 ${product.stock < 10 ? "text-red-600 font-semibold" : "text-gray-700"}`}>
+                    <p className="text-lg font-semibold text-green-600 mt-2">
+                      {priceRange(product).min === priceRange(product).max
+                        ? formatPrice(product.price)
+                        : `From ${formatPrice(priceRange(product).min)}`}
+                    </p>
+                    <p className={`text-sm mt-1 ${isLow(product) ? "text-red-600 font-semibold" : "text-gray-700"}`}>
                       Stock: {product.stock}
+                      {hasVariants(product) && ` across ${product.variants!.length} variants`}
                     </p>
                     <p className="text-sm text-gray-500 mt-2 line-clamp-2">{product.description}</p>
-                    {product.url && (
-                      <p className="mt-3">
-                        <a
-                          href={product.url}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-blue-600 hover:underline font-medium"
-                        >
-                          View Product
-                        </a>
-                      </p>
+                    <p className="mt-3">
+                      <Link to={`/products/${product.id}`} className="text-blue-600 hover:underline font-medium">
+                        View Product
+                      </Link>
+                    </p>
+                    {canUseCart && hasVariants(product) && (
+                      <Link
+                        to={`/products/${product.id}`}
+                        className="mt-4 block w-full text-center bg-blue-600 text-white py-2 rounded-lg font-semibold hover:bg-blue-700 hover:scale-105 transition-all duration-200"
+                      >
+                        Choose Options
+                      </Link>
+                    )}
+                    {canUseCart && !hasVariants(product) && (
+                      <button
+                        className="mt-4 w-full bg-blue-600 text-white py-2 rounded-lg font-semibold hover:bg-blue-700 hover:scale-105 transition-all duration-200 disabled:bg-gray-400 disabled:hover:scale-100 disabled:cursor-not-allowed"
+                        disabled={product.stock === 0}
+                        onClick={() => addToCart(product)}
+                      >
+                        {product.stock === 0
+                          ? "Out of Stock"
+                          : cartQuantity(product.id) > 0
+                            ? `Add to Cart (${cartQuantity(product.id)} in cart)`
+                            : "Add to Cart"}
+                      </button>
                     )}
-                    {user?.role === "admin" && (
+                    {(canWrite || canAdjustStock || canDelete) && (
                       <div className="mt-4 flex gap-3">
-                        <button
-                          className="flex-1 bg-yellow-600 text-white py-2 rounded-lg font-semibold hover:bg-yellow-700 hover:scale-105 transition-all duration-200"
-                          onClick={() => setEditingProduct(product)}
-                        >
-                          Edit
-                        </button>
-                        <button
-                          className="flex-1 bg-red-600 text-white py-2 rounded-lg font-semibold hover:bg-red-600/90 hover:scale-105 transition-all duration-200"
-                          onClick={() => deleteProduct(product.id)}
-                        >
-                          Delete
-                        </button>
+                        {canWrite && (
+                          <button
+                            className="flex-1 bg-yellow-600 text-white py-2 rounded-lg font-semibold hover:bg-yellow-700 hover:scale-105 transition-all duration-200"
+                            onClick={() => setEditingProduct(product)}
+                          >
+                            Edit
+                          </button>
+                        )}
+                        {canAdjustStock && (
+                          <button
+                            className="flex-1 bg-indigo-600 text-white py-2 rounded-lg font-semibold hover:bg-indigo-700 hover:scale-105 transition-all duration-200"
+                            onClick={() => setAdjustingProduct(product)}
+                          >
+                            Stock
+                          </button>
+                        )}
+                        {canDelete && (
+                          <button
+                            className="flex-1 bg-red-600 text-white py-2 rounded-lg font-semibold hover:bg-red-600/90 hover:scale-105 transition-all duration-200"
+                            onClick={() => setDeletingProduct(product)}
+                          >
+                            Delete
+                          </button>
+                        )}
                       </div>
                     )}
                   </div>
@@ -346,6 +405,29 @@ const ProductList = () => {
               ))}
             </div>
           )}
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="mt-6 flex justify-center items-center gap-4">
+              <button
+                className="bg-gray-200 text-gray-800 px-4 py-2 rounded-lg font-semibold hover:bg-gray-300 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={page <= 1}
+                onClick={() => updateParams({ page: String(page - 1) })}
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-700">
+                Page {page} of {totalPages}
+              </span>
+              <button
+                className="bg-gray-200 text-gray-800 px-4 py-2 rounded-lg font-semibold hover:bg-gray-300 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={page >= totalPages}
+                onClick={() => updateParams({ page: String(page + 1) })}
+              >
+                Next
+              </button>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,89 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import toast from "react-hot-toast";
+import { FaBarcode } from "react-icons/fa";
+import { productsApi } from "../api/products";
+import { Product, ProductVariant } from "../types/product";
+
+type ScanAction = "open" | "adjust";
+
+interface ScanLookupProps {
+  canAdjustStock: boolean;
+  isPaused: boolean; // A dialog is open; the input takes focus back once it closes
+  onAdjust: (product: Product, variant?: ProductVariant) => void;
+}
+
+// Keyboard-wedge scanners type the code and press Enter, so a focused input
+// is all a scanner needs. Each code is looked up exactly, as a SKU or barcode.
+const ScanLookup: React.FC<ScanLookupProps> = ({ canAdjustStock, isPaused, onAdjust }) => {
+  const navigate = useNavigate();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [code, setCode] = useState("");
+  const [action, setAction] = useState<ScanAction>(canAdjustStock ? "adjust" : "open");
+  const [isLooking, setIsLooking] = useState(false);
+
+  useEffect(() => {
+    if (!isPaused) inputRef.current?.focus();
+  }, [isPaused]);
+
+  const lookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const scanned = code.trim();
+    setCode(""); // Ready for the next scan straight away
+    if (!scanned || isLooking) return;
+
+    setIsLooking(true);
+    const result = await productsApi.lookup(scanned);
+    setIsLooking(false);
+    if (!result.ok) {
+      toast.error(result.error.status === 404 ? result.error.message : `Lookup failed: ${result.error.message}`);
+      console.error("Scan lookup error:", result.error);
+      return;
+    }
+    const { product, variant } = result.data;
+    if (action === "adjust") {
+      onAdjust(product, variant ?? undefined);
+    } else {
+      navigate(`/products/${product.id}${variant ? `?variant=${variant.id}` : ""}`);
+    }
+  };
+
+  return (
+    <form onSubmit={lookup} className="mb-8 bg-white p-6 rounded-xl shadow-md flex flex-col sm:flex-row gap-4 sm:items-end">
+      <div className="flex-1">
+        <label className="block text-sm font-semibold text-gray-700 mb-2">Scan a Barcode or SKU</label>
+        <div className="relative">
+          <FaBarcode className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            disabled={isPaused}
+            className="w-full p-3 pl-10 border border-gray-300 rounded-lg font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
+            placeholder={isLooking ? "Looking up..." : "Scan now, or type a code and press Enter"}
+            autoComplete="off"
+          />
+        </div>
+      </div>
+      {canAdjustStock && (
+        <div className="sm:w-56">
+          <label className="block text-sm font-semibold text-gray-700 mb-2">On Scan</label>
+          <select
+            value={action}
+            onChange={(e) => {
+              setAction(e.target.value as ScanAction);
+              inputRef.current?.focus();
+            }}
+            className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
+          >
+            <option value="adjust">Adjust stock</option>
+            <option value="open">Open product</option>
+          </select>
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default ScanLookup;
@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "../context/useAuth";
+import { Link, useNavigate } from "react-router-dom";
+import toast from "react-hot-toast";
+import { settingsApi } from "../api/settings";
+import { validatePassword, validateUsername } from "../utils/validation";
+
+const Signup = () => {
+  const { register } = useAuth();
+  const navigate = useNavigate();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [errors, setErrors] = useState<{ username?: string; password?: string; confirm?: string }>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [registrationOpen, setRegistrationOpen] = useState(true);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      const result = await settingsApi.get();
+      // If settings can't be loaded, show the form and let the server decide
+      if (result.ok) setRegistrationOpen(result.data.allowRegistration);
+    };
+    fetchSettings();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const nextErrors = {
+      username: validateUsername(username) ?? undefined,
+      password: validatePassword(password) ?? undefined,
+      confirm: password !== confirmPassword ? "Passwords do not match" : undefined,
+    };
+    setErrors(nextErrors);
+    if (nextErrors.username || nextErrors.password || nextErrors.confirm) return;
+
+    setIsSubmitting(true);
+    try {
+      await register(username, password);
+      toast.success(`Welcome, ${username}! Your account has been created.`);
+      navigate("/");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Registration failed";
+      if (message === "Username is already taken") {
+        setErrors({ username: message });
+      }
+      toast.error(message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-100 to-gray-300 p-4">
+      <div className="w-full max-w-md bg-white rounded-xl shadow-lg p-8 transform transition-all duration-300 hover:shadow-xl">
+        <h2 className="text-3xl font-extrabold text-gray-800 mb-6 text-center">
+          Create an Account
+        </h2>
+        {registrationOpen ? (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                Username
+              </label>
+              <input
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                placeholder="Choose a username"
+                required
+              />
+              {errors.username && <p className="mt-1 text-sm text-red-600">{errors.username}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                Password
+              </label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                placeholder="At least 8 characters, with a letter and a number"
+                required
+              />
+              {errors.password && <p className="mt-1 text-sm text-red-600">{errors.password}</p>}
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">
+                Confirm Password
+              </label>
+              <input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                placeholder="Repeat your password"
+                required
+              />
+              {errors.confirm && <p className="mt-1 text-sm text-red-600">{errors.confirm}</p>}
+            </div>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full bg-blue-600 text-white py-3 rounded-lg font-semibold hover:bg-blue-700 hover:scale-105 transform transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-blue-400 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? "Creating account..." : "Sign up"}
+            </button>
+          </form>
+        ) : (
+          <p className="text-center text-gray-600">
+            Registration is currently closed. Please contact a store administrator for an account.
+          </p>
+        )}
+        <p className="mt-4 text-center text-sm text-gray-600">
+          Already have an account?{" "}
+          <Link to="/login" className="text-blue-500 hover:underline">
+            Log in
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default Signup;
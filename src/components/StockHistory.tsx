@@ -0,0 +1,75 @@
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { stockApi } from "../api/stock";
+import { STOCK_REASON_LABELS, StockMovement } from "../types/stock";
+
+interface StockHistoryProps {
+  productId: string;
+  version: number; // Bump to reload after an adjustment
+}
+
+const StockHistory: React.FC<StockHistoryProps> = ({ productId, version }) => {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      const result = await stockApi.history(productId);
+      if (!result.ok) {
+        toast.error(`Failed to fetch stock history: ${result.error.message}`);
+        console.error("Fetch stock history error:", result.error);
+        return;
+      }
+      setMovements(result.data);
+    };
+    fetchHistory();
+  }, [productId, version]);
+
+  // Only products that are (or were) sold in variants need the column
+  const hasVariantMovements = movements.some((m) => m.variantId);
+
+  return (
+    <div className="mt-6 bg-white p-6 rounded-xl shadow-md">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4">Stock History</h2>
+      {movements.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">No stock movements recorded yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="border-b text-sm font-semibold text-gray-700">
+                <th className="py-3 px-4">Date</th>
+                {hasVariantMovements && <th className="py-3 px-4">Variant</th>}
+                <th className="py-3 px-4">Reason</th>
+                <th className="py-3 px-4">Change</th>
+                <th className="py-3 px-4">Stock After</th>
+                <th className="py-3 px-4">By</th>
+                <th className="py-3 px-4">Note</th>
+              </tr>
+            </thead>
+            <tbody>
+              {movements.map((movement) => (
+                <tr key={movement.id} className="border-b hover:bg-gray-50 transition-colors duration-200">
+                  <td className="py-3 px-4 text-sm text-gray-500">{new Date(movement.createdAt).toLocaleString()}</td>
+                  {hasVariantMovements && (
+                    <td className="py-3 px-4 text-sm text-gray-800">{movement.variantName || "-"}</td>
+                  )}
+                  <td className="py-3 px-4 text-sm text-gray-800">{STOCK_REASON_LABELS[movement.reason]}</td>
+                  <td
+                    className={`py-3 px-4 text-sm font-semibold ${movement.delta > 0 ? "text-green-600" : "text-red-600"}`}
+                  >
+                    {movement.delta > 0 ? `+${movement.delta}` : movement.delta}
+                  </td>
+                  <td className="py-3 px-4 text-sm text-gray-700">{movement.stockAfter}</td>
+                  <td className="py-3 px-4 text-sm text-gray-600">{movement.username || "-"}</td>
+                  <td className="py-3 px-4 text-sm text-gray-600">{movement.note}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StockHistory;
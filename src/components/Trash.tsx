@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { trashApi } from "../api/trash";
+import { TrashedProduct } from "../types/product";
+import { formatPrice } from "../utils/format";
+import ConfirmDialog from "./ConfirmDialog";
+
+const Trash = () => {
+  const [products, setProducts] = useState<TrashedProduct[]>([]);
+  const [purgingProduct, setPurgingProduct] = useState<TrashedProduct | null>(null);
+
+  useEffect(() => {
+    const fetchTrash = async () => {
+      const result = await trashApi.list();
+      if (!result.ok) {
+        toast.error(`Failed to fetch trash: ${result.error.message}`);
+        console.error("Fetch trash error:", result.error);
+        return;
+      }
+      setProducts(result.data);
+    };
+    fetchTrash();
+  }, []);
+
+  const restoreProduct = async (product: TrashedProduct) => {
+    const result = await trashApi.restore(product.id);
+    if (!result.ok) {
+      toast.error(`Failed to restore product: ${result.error.message}`);
+      console.error("Restore product error:", result.error);
+      return;
+    }
+    setProducts(products.filter((p) => p.id !== product.id));
+    toast.success(`Product "${product.name}" restored`);
+  };
+
+  const purgeProduct = async (product: TrashedProduct) => {
+    setPurgingProduct(null);
+    const result = await trashApi.purge(product.id);
+    if (!result.ok) {
+      toast.error(`Failed to delete product: ${result.error.message}`);
+      console.error("Purge product error:", result.error);
+      return;
+    }
+    setProducts(products.filter((p) => p.id !== product.id));
+    toast.success(`Product "${product.name}" permanently deleted`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-10 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <h1 className="text-3xl font-bold text-gray-800 mb-8">Trash</h1>
+
+        {purgingProduct && (
+          <ConfirmDialog
+            title="Delete Permanently"
+            message={`Permanently delete "${purgingProduct.name}"? This cannot be undone.`}
+            confirmLabel="Delete Forever"
+            onConfirm={() => purgeProduct(purgingProduct)}
+            onCancel={() => setPurgingProduct(null)}
+          />
+        )}
+
+        <div className="bg-white p-6 rounded-xl shadow-md">
+          {products.length === 0 ? (
+            <p className="text-gray-500 text-center py-4">The trash is empty.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left">
+                <thead>
+                  <tr className="border-b text-sm font-semibold text-gray-700">
+                    <th className="py-3 px-4">Name</th>
+                    <th className="py-3 px-4">Category</th>
+                    <th className="py-3 px-4">Price</th>
+                    <th className="py-3 px-4">Stock</th>
+                    <th className="py-3 px-4">Deleted</th>
+                    <th className="py-3 px-4">By</th>
+                    <th className="py-3 px-4"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {products.map((product) => (
+                    <tr key={product.id} className="border-b hover:bg-gray-50 transition-colors duration-200">
+                      <td className="py-3 px-4 text-sm text-gray-800">{product.name}</td>
+                      <td className="py-3 px-4 text-sm text-gray-600">{product.category}</td>
+                      <td className="py-3 px-4 text-sm text-green-600">{formatPrice(product.price)}</td>
+                      <td className="py-3 px-4 text-sm text-gray-700">{product.stock}</td>
+                      <td className="py-3 px-4 text-sm text-gray-500">{new Date(product.deletedAt).toLocaleString()}</td>
+                      <td className="py-3 px-4 text-sm text-gray-500">{product.deletedBy || "—"}</td>
+                      <td className="py-3 px-4">
+                        <div className="flex gap-2 justify-end">
+                          <button
+                            className="bg-green-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-green-700"
+                            onClick={() => restoreProduct(product)}
+                          >
+                            Restore
+                          </button>
+                          <button
+                            className="bg-red-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-red-700"
+                            onClick={() => setPurgingProduct(product)}
+                          >
+                            Purge
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Trash;
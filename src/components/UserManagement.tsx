@@ -0,0 +1,282 @@
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { useAuth } from "../context/useAuth";
+import { usersApi } from "../api/users";
+import { settingsApi } from "../api/settings";
+import { NewUser, ROLE_LABELS, ROLES, Role, User, UserChanges } from "../types/user";
+import { validatePassword, validateUsername } from "../utils/validation";
+
+const emptyUser: NewUser = { username: "", password: "", role: "user" };
+
+const isActiveAdmin = (u: User) => u.role === "admin" && u.active !== false;
+
+const UserManagement = () => {
+  const { user: currentUser } = useAuth();
+  const [users, setUsers] = useState<User[]>([]);
+  const [newUser, setNewUser] = useState<NewUser>(emptyUser);
+  const [resettingUser, setResettingUser] = useState<User | null>(null);
+  const [newPassword, setNewPassword] = useState("");
+  const [allowRegistration, setAllowRegistration] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      const [usersResult, settingsResult] = await Promise.all([usersApi.list(), settingsApi.get()]);
+      if (!usersResult.ok) {
+        toast.error(`Failed to fetch users: ${usersResult.error.message}`);
+        console.error("Fetch users error:", usersResult.error);
+      } else {
+        setUsers(usersResult.data);
+      }
+      if (settingsResult.ok) {
+        setAllowRegistration(settingsResult.data.allowRegistration);
+      }
+    };
+    fetchData();
+  }, []);
+
+  // Mirrors the server guard so the controls for the last admin are disabled up front
+  const activeAdminCount = users.filter(isActiveAdmin).length;
+  const isLastAdmin = (u: User) => isActiveAdmin(u) && activeAdminCount <= 1;
+
+  const createUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateUsername(newUser.username) || validatePassword(newUser.password);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+    const result = await usersApi.create(newUser);
+    if (!result.ok) {
+      toast.error(`Failed to create user: ${result.error.message}`);
+      console.error("Create user error:", result.error);
+      return;
+    }
+    setUsers([...users, result.data]);
+    setNewUser(emptyUser);
+    toast.success(`User "${result.data.username}" created successfully!`);
+  };
+
+  const updateUser = async (target: User, changes: UserChanges, successMessage: string) => {
+    const result = await usersApi.update(target.id, changes);
+    if (!result.ok) {
+      toast.error(`Failed to update "${target.username}": ${result.error.message}`);
+      console.error("Update user error:", result.error);
+      return false;
+    }
+    setUsers(users.map((u) => (u.id === target.id ? result.data : u)));
+    toast.success(successMessage);
+    return true;
+  };
+
+  const handleResetSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!resettingUser) return;
+    const passwordError = validatePassword(newPassword);
+    if (passwordError) {
+      toast.error(passwordError);
+      return;
+    }
+    const updated = await updateUser(
+      resettingUser,
+      { password: newPassword },
+      `Password for "${resettingUser.username}" has been reset`
+    );
+    if (updated) {
+      setResettingUser(null);
+      setNewPassword("");
+    }
+  };
+
+  const toggleRegistration = async () => {
+    if (allowRegistration === null) return;
+    const result = await settingsApi.update({ allowRegistration: !allowRegistration });
+    if (!result.ok) {
+      toast.error(`Failed to update settings: ${result.error.message}`);
+      console.error("Update settings error:", result.error);
+      return;
+    }
+    setAllowRegistration(result.data.allowRegistration);
+    toast.success(`Self-registration ${result.data.allowRegistration ? "enabled" : "disabled"}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-10 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Header */}
+        <div className="mb-8 flex justify-between items-center">
+          <h1 className="text-3xl font-bold text-gray-800">User Management</h1>
+          {allowRegistration !== null && (
+            <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+              <input type="checkbox" checked={allowRegistration} onChange={toggleRegistration} />
+              Allow self-registration
+            </label>
+          )}
+        </div>
+
+        {/* Create User */}
+        <form onSubmit={createUser} className="mb-8 bg-white p-6 rounded-xl shadow-md flex flex-col sm:flex-row gap-4 sm:items-end">
+          <div className="flex-1">
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Username</label>
+            <input
+              type="text"
+              value={newUser.username}
+              onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
+              placeholder="New username"
+              required
+            />
+          </div>
+          <div className="flex-1">
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Password</label>
+            <input
+              type="password"
+              value={newUser.password}
+              onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
+              placeholder="Initial password"
+              required
+            />
+          </div>
+          <div className="flex-1">
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Role</label>
+            <select
+              value={newUser.role}
+              onChange={(e) => setNewUser({ ...newUser, role: e.target.value as Role })}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
+            >
+              {ROLES.map((role) => (
+                <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="submit"
+            className="bg-blue-600 text-white px-6 py-3 rounded-lg font-semibold hover:bg-blue-700 hover:scale-105 transition-all duration-200"
+          >
+            Create User
+          </button>
+        </form>
+
+        {/* Reset Password Modal */}
+        {resettingUser && (
+          <div
+            className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-60 z-50"
+            onClick={(e) => { if (e.target === e.currentTarget) setResettingUser(null); }}
+          >
+            <div className="bg-white p-8 rounded-xl shadow-2xl w-full max-w-md">
+              <h2 className="text-2xl font-bold text-gray-800 mb-6">
+                Reset Password for {resettingUser.username}
+              </h2>
+              <form onSubmit={handleResetSubmit} className="space-y-6">
+                <input
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  className="w-full p-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all duration-200"
+                  placeholder="New password"
+                  required
+                />
+                <div className="flex gap-4 justify-end">
+                  <button
+                    type="submit"
+                    className="bg-blue-600 text-white px-6 py-2 rounded-lg font-semibold hover:bg-blue-700 hover:scale-105 transition-all duration-200"
+                  >
+                    Reset
+                  </button>
+                  <button
+                    type="button"
+                    className="bg-gray-500 text-white px-6 py-2 rounded-lg font-semibold hover:bg-gray-600 hover:scale-105 transition-all duration-200"
+                    onClick={() => { setResettingUser(null); setNewPassword(""); }}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+
+        {/* User List */}
+        <div className="bg-white p-6 rounded-xl shadow-md overflow-x-auto">
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">Users</h2>
+          {users.length === 0 ? (
+            <p className="text-gray-500 text-center py-4">No users found.</p>
+          ) : (
+            <table className="w-full text-left">
+              <thead>
+                <tr className="border-b text-sm font-semibold text-gray-700">
+                  <th className="py-3 px-4">Username</th>
+                  <th className="py-3 px-4">Role</th>
+                  <th className="py-3 px-4">Status</th>
+                  <th className="py-3 px-4">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {users.map((u) => {
+                  const active = u.active !== false;
+                  const lastAdmin = isLastAdmin(u);
+                  return (
+                    <tr key={u.id} className="border-b hover:bg-gray-50 transition-colors duration-200">
+                      <td className="py-3 px-4 text-sm text-gray-800">
+                        {u.username}
+                        {u.id === currentUser?.id && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                      </td>
+                      <td className="py-3 px-4 text-sm">
+                        <select
+                          value={u.role}
+                          disabled={lastAdmin}
+                          title={lastAdmin ? "The store must keep at least one active admin" : undefined}
+                          onChange={(e) =>
+                            updateUser(
+                              u,
+                              { role: e.target.value as Role },
+                              `"${u.username}" is now ${ROLE_LABELS[e.target.value as Role]}`
+                            )
+                          }
+                          className="p-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                        >
+                          {ROLES.map((role) => (
+                            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className={`py-3 px-4 text-sm font-semibold ${active ? "text-green-600" : "text-red-600"}`}>
+                        {active ? "Active" : "Deactivated"}
+                      </td>
+                      <td className="py-3 px-4 text-sm">
+                        <div className="flex gap-3">
+                          <button
+                            className="bg-yellow-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-yellow-700 transition-all duration-200"
+                            onClick={() => setResettingUser(u)}
+                          >
+                            Reset Password
+                          </button>
+                          <button
+                            disabled={active && lastAdmin}
+                            title={active && lastAdmin ? "The store must keep at least one active admin" : undefined}
+                            className={`${active ? "bg-red-600 hover:bg-red-700" : "bg-green-600 hover:bg-green-700"} text-white px-4 py-2 rounded-lg font-semibold transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed`}
+                            onClick={() =>
+                              updateUser(
+                                u,
+                                { active: !active },
+                                `"${u.username}" has been ${active ? "deactivated" : "reactivated"}`
+                              )
+                            }
+                          >
+                            {active ? "Deactivate" : "Activate"}
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UserManagement;
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { FaPlus, FaTimes } from "react-icons/fa";
+import { ProductVariant, VariantAttribute } from "../types/product";
+import { parseReorderPoint } from "../utils/reorderPoint";
+import { suggestSku, syncVariants, variantLabel } from "../utils/variants";
+
+interface VariantsEditorProps {
+  productName: string;
+  basePrice: number; // Starting price for new variants
+  attributes: VariantAttribute[];
+  variants: ProductVariant[];
+  lockedStockIds?: string[]; // Saved variants, whose stock changes go through Adjust Stock
+  defaultReorderPoint: number; // Shown as the placeholder for variants without their own
+  onChange: (attributes: VariantAttribute[], variants: ProductVariant[]) => void;
+}
+
+const inputClassName =
+  "w-full p-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-all duration-200 disabled:bg-gray-100";
+
+// Attributes are edited as name + value chips; the variant rows follow them,
+// one per combination, keeping the SKU, price and stock of rows that still match
+const VariantsEditor: React.FC<VariantsEditorProps> = ({
+  productName,
+  basePrice,
+  attributes,
+  variants,
+  lockedStockIds = [],
+  defaultReorderPoint,
+  onChange,
+}) => {
+  const [valueDrafts, setValueDrafts] = useState<string[]>([]);
+
+  const newVariant = (options: Record<string, string>): ProductVariant => ({
+    id: "", // Assigned by the API on save
+    sku: suggestSku(productName, options),
+    options,
+    price: basePrice,
+    stock: 0,
+  });
+
+  const changeAttributes = (next: VariantAttribute[], currentVariants = variants) =>
+    onChange(next, syncVariants(next, currentVariants, newVariant));
+
+  const renameAttribute = (index: number, name: string) => {
+    const oldName = attributes[index].name;
+    // Carry the values over to the new name so existing rows keep matching
+    const renamed = variants.map((v) => {
+      const { [oldName]: value, ...rest } = v.options;
+      return value === undefined ? v : { ...v, options: { ...rest, [name]: value } };
+    });
+    changeAttributes(
+      attributes.map((a, i) => (i === index ? { ...a, name } : a)),
+      renamed
+    );
+  };
+
+  const addValue = (index: number) => {
+    const value = (valueDrafts[index] ?? "").trim();
+    setValueDrafts(valueDrafts.map((d, i) => (i === index ? "" : d)));
+    const attribute = attributes[index];
+    if (!value || attribute.values.some((v) => v.toLowerCase() === value.toLowerCase())) return;
+    changeAttributes(attributes.map((a, i) => (i === index ? { ...a, values: [...a.values, value] } : a)));
+  };
+
+  const updateVariant = (index: number, changes: Partial<ProductVariant>) =>
+    onChange(
+      attributes,
+      variants.map((v, i) => (i === index ? { ...v, ...changes } : v))
+    );
+
+  return (
+    <div className="space-y-4">
+      {attributes.map((attribute, index) => (
+        <div key={index} className="p-4 border border-gray-200 rounded-lg space-y-3">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={attribute.name}
+              onChange={(e) => renameAttribute(index, e.target.value)}
+              className={inputClassName}
+              placeholder="Attribute, e.g. Size"
+            />
+            <button
+              type="button"
+              onClick={() => {
+                changeAttributes(attributes.filter((_, i) => i !== index));
+                setValueDrafts(valueDrafts.filter((_, i) => i !== index));
+              }}
+              className="text-red-600 hover:text-red-700 px-2"
+              aria-label={`Remove attribute ${attribute.name}`}
+            >
+              <FaTimes />
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {attribute.values.map((value) => (
+              <span
+                key={value}
+                className="flex items-center gap-1 bg-indigo-100 text-indigo-800 text-sm px-2 py-1 rounded-full"
+              >
+                {value}
+                <button
+                  type="button"
+                  onClick={() =>
+                    changeAttributes(
+                      attributes.map((a, i) => (i === index ? { ...a, values: a.values.filter((v) => v !== value) } : a))
+                    )
+                  }
+                  aria-label={`Remove ${value}`}
+                >
+                  <FaTimes size={10} />
+                </button>
+              </span>
+            ))}
+            <input
+              type="text"
+              value={valueDrafts[index] ?? ""}
+              onChange={(e) => {
+                const drafts = [...valueDrafts];
+                drafts[index] = e.target.value;
+                setValueDrafts(drafts);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" || e.key === ",") {
+                  e.preventDefault();
+                  addValue(index);
+                }
+              }}
+              onBlur={() => addValue(index)}
+              className="flex-1 min-w-32 p-1 text-sm border-b border-gray-300 focus:outline-none focus:border-indigo-500"
+              placeholder="Add a value and press Enter"
+            />
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => changeAttributes([...attributes, { name: "", values: [] }])}
+        className="flex items-center text-indigo-600 font-semibold hover:text-indigo-700"
+      >
+        <FaPlus className="mr-2" />
+        {attributes.length === 0 ? "Add Variants (e.g. size, colour)" : "Add Attribute"}
+      </button>
+
+      {variants.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead>
+              <tr className="border-b font-semibold text-gray-700">
+                <th className="py-2 pr-2">Variant</th>
+                <th className="py-2 px-2">SKU</th>
+                <th className="py-2 px-2">Barcode</th>
+                <th className="py-2 px-2">Price (₹)</th>
+                <th className="py-2 px-2">Stock</th>
+                <th className="py-2 pl-2">Reorder Point</th>
+              </tr>
+            </thead>
+            <tbody>
+              {variants.map((variant, index) => (
+                <tr key={variantLabel(attributes, variant)} className="border-b">
+                  <td className="py-2 pr-2 text-gray-800 whitespace-nowrap">{variantLabel(attributes, variant)}</td>
+                  <td className="py-2 px-2">
+                    <input
+                      type="text"
+                      value={variant.sku}
+                      onChange={(e) => updateVariant(index, { sku: e.target.value })}
+                      className={inputClassName}
+                      required
+                    />
+                  </td>
+                  <td className="py-2 px-2">
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={variant.barcode ?? ""}
+                      onChange={(e) => updateVariant(index, { barcode: e.target.value || undefined })}
+                      className={inputClassName}
+                      placeholder="Optional"
+                    />
+                  </td>
+                  <td className="py-2 px-2">
+                    <input
+                      type="number"
+                      value={variant.price || ""}
+                      onChange={(e) => updateVariant(index, { price: Number(e.target.value) })}
+                      className={inputClassName}
+                      min="0"
+                      step="0.01"
+                      required
+                    />
+                  </td>
+                  <td className="py-2 px-2">
+                    <input
+                      type="number"
+                      value={variant.stock}
+                      onChange={(e) => updateVariant(index, { stock: Math.max(0, Math.floor(Number(e.target.value))) })}
+                      className={inputClassName}
+                      min="0"
+                      step="1"
+                      disabled={lockedStockIds.includes(variant.id)}
+                      title={lockedStockIds.includes(variant.id) ? "Use Adjust Stock to record a change." : undefined}
+                    />
+                  </td>
+                  <td className="py-2 pl-2">
+                    <input
+                      type="number"
+                      value={variant.reorderPoint ?? ""}
+                      onChange={(e) => updateVariant(index, { reorderPoint: parseReorderPoint(e.target.value) })}
+                      className={inputClassName}
+                      min="0"
+                      step="1"
+                      placeholder={`Default (${defaultReorderPoint})`}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VariantsEditor;
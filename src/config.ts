@@ -0,0 +1,4 @@
+// Base URL of the json-server API. Set VITE_API_URL in .env to point the app
+// at a local server (`npm run server`) or at staging.
+export const API_BASE_URL =
+  import.meta.env.VITE_API_URL || "https://react-store-2wpq.onrender.com";
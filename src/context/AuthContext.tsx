@@ -1,54 +1,96 @@
-import React, { createContext, useState, useEffect } from "react";
+import React, { createContext, useState, useEffect, useMemo } from "react";
+import toast from "react-hot-toast";
+import { authApi } from "../api/auth";
+import { getStoredToken, onStoredTokenChange, storeToken } from "../api/tokenStorage";
+import { User } from "../types/user";
+import { decodeToken, isTokenExpired } from "../utils/token";
 
-interface User {
-  username: string;
-  role: string;
-}
+// Refresh this long before the token expires
+const REFRESH_MARGIN_MS = 60 * 1000;
 
 interface AuthContextType {
   user: User | null;
-  login: (username: string, password: string) => Promise<void>;
+  token: string | null;
+  login: (username: string, password: string) => Promise<User>; // Resolves with the signed-in user
+  register: (username: string, password: string) => Promise<User>;
   logout: () => void;
 }
 
 export const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Drops tokens that are malformed or already expired
+const readValidToken = (token: string | null) => {
+  const claims = token ? decodeToken(token) : null;
+  return claims && !isTokenExpired(claims) ? token : null;
+};
+
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(() => {
-    const savedUser = localStorage.getItem("user");
-    return savedUser ? JSON.parse(savedUser) : null;
-  });
+  const [token, setToken] = useState<string | null>(() => readValidToken(getStoredToken()));
+
+  const claims = useMemo(() => (token ? decodeToken(token) : null), [token]);
+  const user = useMemo<User | null>(
+    () => (claims ? { id: claims.sub, username: claims.username, role: claims.role } : null),
+    [claims]
+  );
 
   useEffect(() => {
-    if (user) {
-      localStorage.setItem("user", JSON.stringify(user));
-    } else {
-      localStorage.removeItem("user");
-    }
-  }, [user]);
+    localStorage.removeItem("user"); // Sessions from before token auth
+    storeToken(token);
+  }, [token]);
+
+  // Keep every tab on the same session
+  useEffect(() => onStoredTokenChange((newToken) => setToken(readValidToken(newToken))), []);
+
+  // Refresh shortly before expiry, and log out if that does not succeed in time
+  useEffect(() => {
+    if (!claims) return;
+    const expiresIn = claims.exp * 1000 - Date.now();
+
+    const expire = () => {
+      setToken(null);
+      toast.error("Your session has expired. Please log in again.", { id: "session-expired" });
+    };
+
+    const refreshTimer = setTimeout(async () => {
+      const result = await authApi.refresh();
+      if (result.ok) {
+        setToken(result.data.token);
+      } else if (result.error.status === 401) {
+        expire();
+      }
+    }, Math.max(expiresIn - REFRESH_MARGIN_MS, 0));
+    const expiryTimer = setTimeout(expire, Math.max(expiresIn, 0));
+
+    return () => {
+      clearTimeout(refreshTimer);
+      clearTimeout(expiryTimer);
+    };
+  }, [claims]);
 
   const login = async (username: string, password: string) => {
-    const response = await fetch("https://react-store-2wpq.onrender.com/users");
-    const users: (User & { password: string })[] = await response.json();
-
-    const foundUser = users.find(
-      (u) => u.username === username && u.password === password
-    );
-
-    if (foundUser) {
-      const userData = { username: foundUser.username, role: foundUser.role };
-      setUser(userData);
-    } else {
-      throw new Error("Invalid credentials");
+    const result = await authApi.login(username, password);
+    if (!result.ok) {
+      throw new Error(result.error.message);
+    }
+    setToken(result.data.token);
+    return result.data.user;
+  };
+
+  const register = async (username: string, password: string) => {
+    const result = await authApi.register(username, password);
+    if (!result.ok) {
+      throw new Error(result.error.message);
     }
+    setToken(result.data.token);
+    return result.data.user;
   };
 
   const logout = () => {
-    setUser(null);
+    setToken(null);
   };
 
   return (
-    <AuthContext.Provider value={{ user, login, logout }}>
+    <AuthContext.Provider value={{ user, token, login, register, logout }}>
       {children}
     </AuthContext.Provider>
   );
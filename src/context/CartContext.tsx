@@ -0,0 +1,119 @@
+import React, { createContext, useCallback, useEffect, useState } from "react";
+import { useAuth } from "./useAuth";
+import { CartItem } from "../types/cart";
+import { Product, ProductVariant } from "../types/product";
+import { primaryImage } from "../utils/images";
+import { findVariant, hasVariants, variantName } from "../utils/variants";
+
+interface CartContextType {
+  items: CartItem[];
+  itemCount: number;
+  subtotal: number;
+  // Both return false when the quantity had to be capped at the product's stock
+  addItem: (product: Product, quantity?: number, variant?: ProductVariant) => boolean;
+  updateQuantity: (key: string, quantity: number) => boolean;
+  removeItem: (key: string) => void;
+  refreshProducts: (products: Product[]) => void;
+  clear: () => void;
+}
+
+export const CartContext = createContext<CartContextType | undefined>(undefined);
+
+const readCart = (key: string | null): CartItem[] => {
+  if (!key) return [];
+  try {
+    // Carts saved before variants existed have no item keys
+    const items: CartItem[] = JSON.parse(localStorage.getItem(key) || "[]");
+    return items.map((item) => ({ ...item, key: item.key ?? item.productId }));
+  } catch {
+    return [];
+  }
+};
+
+const cartItemKey = (productId: string, variantId?: string) =>
+  variantId ? `${productId}:${variantId}` : productId;
+
+const snapshot = (product: Product, variant?: ProductVariant): CartItem["product"] => ({
+  id: product.id,
+  name: variant ? variantName(product, variant) : product.name,
+  price: variant ? variant.price : product.price,
+  stock: variant ? variant.stock : product.stock,
+  image: primaryImage(product),
+});
+
+// Each user keeps their own cart in localStorage
+export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const storageKey = user ? `cart:${user.id}` : null;
+  const [cart, setCart] = useState(() => ({ key: storageKey, items: readCart(storageKey) }));
+
+  // Swap carts as soon as a different user signs in
+  if (cart.key !== storageKey) {
+    setCart({ key: storageKey, items: readCart(storageKey) });
+  }
+
+  useEffect(() => {
+    if (cart.key) localStorage.setItem(cart.key, JSON.stringify(cart.items));
+  }, [cart]);
+
+  const setItems = (update: (items: CartItem[]) => CartItem[]) =>
+    setCart((current) => ({ ...current, items: update(current.items) }));
+
+  // Products sold in variants are added one variant at a time
+  const addItem = (product: Product, quantity = 1, variant?: ProductVariant) => {
+    const key = cartItemKey(product.id, variant?.id);
+    const item = snapshot(product, variant);
+    const existing = cart.items.find((i) => i.key === key);
+    const wanted = (existing?.quantity ?? 0) + quantity;
+    const capped = Math.min(wanted, item.stock);
+    if (capped <= 0) return false;
+    setItems((items) =>
+      existing
+        ? items.map((i) => (i.key === key ? { ...i, product: item, quantity: capped } : i))
+        : [...items, { key, productId: product.id, variantId: variant?.id, product: item, quantity: capped }]
+    );
+    return capped === wanted;
+  };
+
+  const updateQuantity = (key: string, quantity: number) => {
+    const item = cart.items.find((i) => i.key === key);
+    if (!item) return false;
+    const capped = Math.max(1, Math.min(quantity, item.product.stock));
+    setItems((items) => items.map((i) => (i.key === key ? { ...i, quantity: capped } : i)));
+    return capped === quantity;
+  };
+
+  const removeItem = (key: string) => {
+    setItems((items) => items.filter((i) => i.key !== key));
+  };
+
+  // Updates snapshots with fresh product data, dropping products and variants that
+  // no longer exist, and items whose product has since gained or lost variants.
+  // Quantities are re-capped at the current stock. Stable so pages can call it on mount.
+  const refreshProducts = useCallback((products: Product[]) => {
+    setCart((current) => ({
+      ...current,
+      items: current.items.flatMap((item) => {
+        const product = products.find((p) => p.id === item.productId);
+        if (!product || hasVariants(product) !== Boolean(item.variantId)) return [];
+        const variant = item.variantId ? findVariant(product, item.variantId) : undefined;
+        if (item.variantId && !variant) return [];
+        const fresh = snapshot(product, variant);
+        return [{ ...item, product: fresh, quantity: Math.min(item.quantity, fresh.stock) }];
+      }),
+    }));
+  }, []);
+
+  const clear = () => setItems(() => []);
+
+  const itemCount = cart.items.reduce((acc, i) => acc + i.quantity, 0);
+  const subtotal = cart.items.reduce((acc, i) => acc + i.product.price * i.quantity, 0);
+
+  return (
+    <CartContext.Provider
+      value={{ items: cart.items, itemCount, subtotal, addItem, updateQuantity, removeItem, refreshProducts, clear }}
+    >
+      {children}
+    </CartContext.Provider>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { createContext, useCallback, useEffect, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import { useAuth } from "./useAuth";
+import { notificationsApi } from "../api/notifications";
+import { AppNotification, NOTIFICATION_TYPES, NotificationType } from "../types/notification";
+
+const POLL_INTERVAL_MS = 30 * 1000;
+
+interface NotificationContextType {
+  notifications: AppNotification[];
+  unreadCount: number;
+  toastTypes: NotificationType[];
+  refresh: () => Promise<void>; // Call after an action that may raise a notification
+  markRead: (id: string, read?: boolean) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  dismiss: (id: string) => Promise<void>;
+  setToastTypes: (types: NotificationType[]) => Promise<void>;
+}
+
+export const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+// Polls the signed-in user's notifications and toasts new ones of the types they chose
+export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [state, setState] = useState<{ userId: string | null; notifications: AppNotification[] }>({
+    userId,
+    notifications: [],
+  });
+  const [toastTypes, setToastTypesState] = useState<NotificationType[]>(NOTIFICATION_TYPES);
+  const toastTypesRef = useRef(toastTypes);
+  // Ids already shown for this user; null until the first load, which never toasts
+  const seenIds = useRef<{ userId: string; ids: Set<string> } | null>(null);
+
+  // Start empty as soon as a different user signs in
+  if (state.userId !== userId) {
+    setState({ userId, notifications: [] });
+  }
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    const result = await notificationsApi.list();
+    if (!result.ok) {
+      console.error("Fetch notifications error:", result.error);
+      return;
+    }
+    const seen = seenIds.current?.userId === userId ? seenIds.current.ids : null;
+    if (seen) {
+      result.data
+        .filter((n) => !seen.has(n.id) && !n.read && toastTypesRef.current.includes(n.type))
+        .forEach((n) => toast(n.message, { id: `notification-${n.id}`, icon: "🔔" }));
+    }
+    seenIds.current = { userId, ids: new Set(result.data.map((n) => n.id)) };
+    setState({ userId, notifications: result.data });
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+    const fetchPreferences = async () => {
+      const result = await notificationsApi.getPreferences();
+      if (!result.ok) {
+        console.error("Fetch notification preferences error:", result.error);
+        return;
+      }
+      toastTypesRef.current = result.data.toastTypes;
+      setToastTypesState(result.data.toastTypes);
+    };
+    fetchPreferences();
+    refresh();
+    const timer = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [userId, refresh]);
+
+  const updateOne = (id: string, update: (n: AppNotification) => AppNotification | null) =>
+    setState((current) => ({
+      ...current,
+      notifications: current.notifications
+        .map((n) => (n.id === id ? update(n) : n))
+        .filter((n): n is AppNotification => n !== null),
+    }));
+
+  const markRead = async (id: string, read = true) => {
+    const result = await notificationsApi.markRead(id, read);
+    if (!result.ok) {
+      toast.error(`Failed to update notification: ${result.error.message}`);
+      console.error("Mark notification error:", result.error);
+      return;
+    }
+    updateOne(id, () => result.data);
+  };
+
+  const markAllRead = async () => {
+    const result = await notificationsApi.markAllRead();
+    if (!result.ok) {
+      toast.error(`Failed to update notifications: ${result.error.message}`);
+      console.error("Mark all notifications error:", result.error);
+      return;
+    }
+    setState((current) => ({
+      ...current,
+      notifications: current.notifications.map((n) => ({ ...n, read: true })),
+    }));
+  };
+
+  const dismiss = async (id: string) => {
+    const result = await notificationsApi.dismiss(id);
+    if (!result.ok) {
+      toast.error(`Failed to dismiss notification: ${result.error.message}`);
+      console.error("Dismiss notification error:", result.error);
+      return;
+    }
+    updateOne(id, () => null);
+  };
+
+  const setToastTypes = async (types: NotificationType[]) => {
+    const result = await notificationsApi.updatePreferences({ toastTypes: types });
+    if (!result.ok) {
+      toast.error(`Failed to save preferences: ${result.error.message}`);
+      console.error("Update notification preferences error:", result.error);
+      return;
+    }
+    toastTypesRef.current = result.data.toastTypes;
+    setToastTypesState(result.data.toastTypes);
+  };
+
+  const notifications = state.notifications;
+  const unreadCount = notifications.filter((n) => !n.read).length;
+
+  return (
+    <NotificationContext.Provider
+      value={{ notifications, unreadCount, toastTypes, refresh, markRead, markAllRead, dismiss, setToastTypes }}
+    >
+      {children}
+    </NotificationContext.Provider>
+  );
+};
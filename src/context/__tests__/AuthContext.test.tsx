@@ -0,0 +1,133 @@
+import { act, render, screen } from "@testing-library/react";
+import toast from "react-hot-toast";
+import { AuthProvider } from "../AuthContext";
+import { useAuth } from "../useAuth";
+import { authApi } from "../../api/auth";
+
+jest.mock("../../api/auth", () => ({
+  authApi: { login: jest.fn(), register: jest.fn(), refresh: jest.fn() },
+}));
+jest.mock("react-hot-toast", () => ({ __esModule: true, default: { error: jest.fn() } }));
+
+const refresh = authApi.refresh as jest.Mock;
+
+const NOW = new Date("2026-01-01T12:00:00Z").getTime();
+const MINUTE = 60 * 1000;
+
+// Unsigned token with the same claims shape the API issues
+const makeToken = (username: string, expiresInMs: number) => {
+  const encode = (value: object) =>
+    btoa(JSON.stringify(value)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+  const now = Math.floor(Date.now() / 1000);
+  return [
+    encode({ alg: "HS256", typ: "JWT" }),
+    encode({
+      sub: "1",
+      username,
+      role: "admin",
+      auth_time: now,
+      iat: now,
+      exp: Math.floor((Date.now() + expiresInMs) / 1000),
+    }),
+    "signature",
+  ].join(".");
+};
+
+const CurrentUser = () => {
+  const { user } = useAuth();
+  return <p>{user ? user.username : "anonymous"}</p>;
+};
+
+const renderWithAuth = () =>
+  render(
+    <AuthProvider>
+      <CurrentUser />
+    </AuthProvider>
+  );
+
+describe("AuthProvider session handling", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(NOW);
+    localStorage.clear();
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("ignores a stored token that has already expired", () => {
+    localStorage.setItem("token", makeToken("admin", -MINUTE));
+    renderWithAuth();
+    expect(screen.getByText("anonymous")).toBeInTheDocument();
+    expect(localStorage.getItem("token")).toBeNull();
+  });
+
+  it("logs out with a toast when the session expires", async () => {
+    refresh.mockResolvedValue({ ok: false, error: { status: 401, message: "expired" } });
+    localStorage.setItem("token", makeToken("admin", 10 * MINUTE));
+    renderWithAuth();
+    expect(screen.getByText("admin")).toBeInTheDocument();
+
+    await act(async () => {
+      jest.advanceTimersByTime(9 * MINUTE);
+    });
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(screen.getByText("anonymous")).toBeInTheDocument();
+    expect(localStorage.getItem("token")).toBeNull();
+    expect(toast.error).toHaveBeenCalledWith(
+      "Your session has expired. Please log in again.",
+      expect.objectContaining({ id: "session-expired" })
+    );
+  });
+
+  it("logs out at expiry if the refresh cannot reach the server", async () => {
+    refresh.mockResolvedValue({ ok: false, error: { status: null, message: "Network Error" } });
+    localStorage.setItem("token", makeToken("admin", 10 * MINUTE));
+    renderWithAuth();
+
+    await act(async () => {
+      jest.advanceTimersByTime(9 * MINUTE + 30 * 1000);
+    });
+    expect(screen.getByText("admin")).toBeInTheDocument();
+
+    await act(async () => {
+      jest.advanceTimersByTime(30 * 1000);
+    });
+    expect(screen.getByText("anonymous")).toBeInTheDocument();
+  });
+
+  it("refreshes the token before it expires", async () => {
+    localStorage.setItem("token", makeToken("admin", 10 * MINUTE));
+    const refreshed = makeToken("admin", 70 * MINUTE);
+    refresh.mockResolvedValue({ ok: true, data: { token: refreshed } });
+    renderWithAuth();
+
+    await act(async () => {
+      jest.advanceTimersByTime(9 * MINUTE);
+    });
+    // Past the original expiry
+    await act(async () => {
+      jest.advanceTimersByTime(11 * MINUTE);
+    });
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(screen.getByText("admin")).toBeInTheDocument();
+    expect(localStorage.getItem("token")).toBe(refreshed);
+    expect(toast.error).not.toHaveBeenCalled();
+  });
+
+  it("logs out when another tab logs out", () => {
+    localStorage.setItem("token", makeToken("admin", 10 * MINUTE));
+    renderWithAuth();
+
+    act(() => {
+      localStorage.removeItem("token");
+      window.dispatchEvent(new StorageEvent("storage", { key: "token", newValue: null }));
+    });
+
+    expect(screen.getByText("anonymous")).toBeInTheDocument();
+  });
+});
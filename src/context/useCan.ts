@@ -0,0 +1,7 @@
+import { useAuth } from "./useAuth";
+import { hasPermission, Permission } from "../utils/permissions";
+
+export const useCan = (permission: Permission) => {
+  const { user } = useAuth();
+  return hasPermission(user, permission);
+};
@@ -0,0 +1,25 @@
+import { useCallback, useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { categoriesApi } from "../api/categories";
+import { Category } from "../types/category";
+
+// Categories in display order; `reload` refetches after an edit
+export const useCategories = () => {
+  const [categories, setCategories] = useState<Category[]>([]);
+
+  const reload = useCallback(async () => {
+    const result = await categoriesApi.list();
+    if (!result.ok) {
+      toast.error(`Failed to fetch categories: ${result.error.message}`);
+      console.error("Fetch categories error:", result.error);
+      return;
+    }
+    setCategories([...result.data].sort((a, b) => a.position - b.position));
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { categories, activeCategories: categories.filter((c) => !c.archived), reload };
+};
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from "react";
+import { settingsApi } from "../api/settings";
+import { Product, ProductVariant } from "../types/product";
+import { FALLBACK_REORDER_POINT, isLowStock, resolveReorderPoint } from "../utils/reorderPoint";
+import { hasVariants } from "../utils/variants";
+import { useCategories } from "./useCategories";
+
+// Resolves each product's effective reorder point from its own value,
+// its category's default and the store-wide default in settings. Products
+// with variants are low as soon as any one variant is.
+export const useReorderPoints = () => {
+  const { categories } = useCategories();
+  const [defaultReorderPoint, setDefaultReorderPoint] = useState(FALLBACK_REORDER_POINT);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      const result = await settingsApi.get();
+      if (!result.ok) {
+        console.error("Fetch settings error:", result.error);
+        return;
+      }
+      setDefaultReorderPoint(result.data.defaultReorderPoint ?? FALLBACK_REORDER_POINT);
+    };
+    fetchSettings();
+  }, []);
+
+  const reorderPointFor = useCallback(
+    (product: Pick<Product, "category" | "reorderPoint">) =>
+      resolveReorderPoint(product, categories, defaultReorderPoint),
+    [categories, defaultReorderPoint]
+  );
+  const variantReorderPointFor = useCallback(
+    (product: Pick<Product, "category" | "reorderPoint">, variant: ProductVariant) =>
+      variant.reorderPoint ?? reorderPointFor(product),
+    [reorderPointFor]
+  );
+  const lowVariants = useCallback(
+    (product: Pick<Product, "category" | "reorderPoint" | "variants">) =>
+      (product.variants ?? []).filter((v) => isLowStock(v.stock, variantReorderPointFor(product, v))),
+    [variantReorderPointFor]
+  );
+  const isLow = useCallback(
+    (product: Pick<Product, "category" | "reorderPoint" | "stock" | "variants">) =>
+      hasVariants(product) ? lowVariants(product).length > 0 : isLowStock(product.stock, reorderPointFor(product)),
+    [reorderPointFor, lowVariants]
+  );
+
+  return { reorderPointFor, variantReorderPointFor, lowVariants, isLow, defaultReorderPoint };
+};
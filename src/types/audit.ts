@@ -0,0 +1,18 @@
+export type AuditAction = "update" | "delete" | "restore" | "purge";
+
+export interface AuditChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  entity: "product";
+  entityId: string;
+  entityName: string;
+  action: AuditAction;
+  changes: Record<string, AuditChange>;
+  userId: string | null;
+  username: string | null;
+  createdAt: string;
+}
@@ -0,0 +1,11 @@
+import { Product, ProductPhoto } from "./product";
+
+export interface CartItem {
+  key: string; // Product id, plus the variant id for products sold in variants
+  productId: string;
+  variantId?: string;
+  // Snapshot for display and the stock cap; refreshed when the cart page loads.
+  // For a variant, name, price and stock are the variant's.
+  product: Pick<Product, "id" | "name" | "price" | "stock"> & { image?: ProductPhoto }; // Primary image only
+  quantity: number;
+}
@@ -0,0 +1,7 @@
+export interface Category {
+  id: string;
+  name: string;
+  position: number; // Display order, ascending
+  archived: boolean; // Archived categories keep their products but can't be picked for new ones
+  reorderPoint?: number | null; // Default for its products; null falls back to settings
+}
@@ -0,0 +1,26 @@
+// Keep in sync with AUDIENCE in api/_lib/notifications.js
+export type NotificationType = "low-stock" | "out-of-stock" | "new-order" | "bulk-upload-failed";
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  "low-stock": "Low stock",
+  "out-of-stock": "Out of stock",
+  "new-order": "New orders",
+  "bulk-upload-failed": "Failed bulk uploads",
+};
+
+export const NOTIFICATION_TYPES = Object.keys(NOTIFICATION_TYPE_LABELS) as NotificationType[];
+
+// Named to avoid clashing with the DOM's Notification
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link: string | null; // In-app path to the product or order it is about
+  read: boolean; // For the current user
+  createdAt: string;
+}
+
+export interface NotificationPreferences {
+  toastTypes: NotificationType[]; // Types that also pop up as toasts
+}
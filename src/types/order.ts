@@ -0,0 +1,30 @@
+export type OrderStatus = "pending" | "shipped" | "delivered" | "cancelled";
+
+// Keep in sync with TRANSITIONS in api/_lib/orders.js
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["shipped", "cancelled"],
+  shipped: ["delivered"],
+  delivered: [],
+  cancelled: [],
+};
+
+export interface OrderItem {
+  productId: string;
+  variantId?: string;
+  sku?: string; // Of the variant
+  name: string; // Includes the variant, e.g. "Tshirt (M / Red)"
+  price: number; // Price at the time of purchase
+  quantity: number;
+}
+
+export interface Order {
+  id: string;
+  userId: string;
+  username: string;
+  items: OrderItem[];
+  total: number;
+  status: OrderStatus;
+  createdAt: string;
+  updatedAt?: string;
+  notRestocked?: OrderItem[]; // Lines whose stock could not be put back on cancelling
+}
@@ -0,0 +1,52 @@
+// One picture in a product's gallery
+export interface ProductPhoto {
+  url: string; // Full size
+  thumbnailUrl?: string; // Set when the image was uploaded rather than linked
+}
+
+// Something a product comes in several of, e.g. Size with S, M and L
+export interface VariantAttribute {
+  name: string;
+  values: string[];
+}
+
+// One sellable combination of attribute values, with its own SKU, price and stock
+export interface ProductVariant {
+  id: string; // Assigned by the API
+  sku: string;
+  barcode?: string; // EAN-8, UPC-A or EAN-13
+  options: Record<string, string>; // Attribute name -> value
+  price: number;
+  stock: number;
+  reorderPoint?: number; // Overrides the product's effective reorder point
+}
+
+export interface Product {
+  id: string;
+  name: string;
+  category: string;
+  price: number;
+  stock: number;
+  description: string;
+  // Optional, but unique across products and variants; the API checks barcode check digits
+  sku?: string;
+  barcode?: string; // EAN-8, UPC-A or EAN-13
+  images?: ProductPhoto[]; // In display order; the first is the primary image
+  reorderPoint?: number; // Overrides the category and store defaults when set
+  // With variants, the API keeps stock as their total and price as the lowest variant price
+  attributes?: VariantAttribute[];
+  variants?: ProductVariant[];
+  // Stamped by the API on every write
+  createdAt?: string;
+  updatedAt?: string;
+  updatedBy?: string | null;
+}
+
+// A deleted product, kept in the trash until restored or purged
+export interface TrashedProduct extends Product {
+  deletedAt: string;
+  deletedBy: string | null;
+}
+
+// Payload for creating a product; json-server assigns the id
+export type NewProduct = Omit<Product, "id">;
@@ -0,0 +1,5 @@
+// Store-wide configuration, editable by admins
+export interface Settings {
+  allowRegistration: boolean;
+  defaultReorderPoint: number; // Low-stock threshold for products and categories without their own
+}
@@ -0,0 +1,32 @@
+// Keep in sync with REASONS in api/_lib/stock.js
+export type StockReason = "restock" | "sale" | "return" | "damage" | "correction";
+
+export const STOCK_REASON_LABELS: Record<StockReason, string> = {
+  restock: "Restock",
+  sale: "Sale",
+  return: "Return",
+  damage: "Damage",
+  correction: "Correction",
+};
+
+export interface StockMovement {
+  id: string;
+  productId: string;
+  productName: string;
+  variantId?: string;
+  variantName?: string; // e.g. "M / Red"
+  delta: number; // Positive for inflow, negative for outflow
+  stockAfter: number; // Of the variant when there is one, otherwise of the product
+  reason: StockReason;
+  note: string;
+  userId: string | null;
+  username: string | null;
+  createdAt: string;
+}
+
+export interface StockAdjustment {
+  delta: number;
+  reason: StockReason;
+  note?: string;
+  variantId?: string; // Required for products with variants
+}
@@ -0,0 +1,9 @@
+// What the API returns for a stored image
+export interface UploadedImage {
+  url: string;
+  thumbnailUrl: string; // WebP, at most 320px on either side
+  contentType: string;
+  size: number; // Bytes
+  width: number;
+  height: number;
+}
@@ -0,0 +1,29 @@
+export type Role = "admin" | "clerk" | "user";
+
+export const ROLES: Role[] = ["admin", "clerk", "user"];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: "Admin",
+  clerk: "Inventory clerk",
+  user: "User",
+};
+
+export interface User {
+  id: string;
+  username: string;
+  role: Role;
+  active?: boolean; // Missing means active
+}
+
+export interface NewUser {
+  username: string;
+  password: string;
+  role: Role;
+}
+
+// Fields an admin may change on an existing account
+export interface UserChanges {
+  role?: Role;
+  active?: boolean;
+  password?: string;
+}
@@ -0,0 +1,49 @@
+import { barcodeBars, barcodeError, checkDigit, isValidBarcode } from "../barcode";
+
+describe("isValidBarcode", () => {
+  it("accepts EAN-13, UPC-A and EAN-8 codes with the right check digit", () => {
+    expect(["4006381333931", "036000291452", "96385074"].map(isValidBarcode)).toEqual([true, true, true]);
+    expect(checkDigit("400638133393")).toBe(1);
+  });
+
+  it("rejects a wrong check digit, other lengths and non-digits", () => {
+    expect(["4006381333932", "12345", "4006381333a31", ""].map(isValidBarcode)).toEqual([false, false, false, false]);
+  });
+});
+
+describe("barcodeError", () => {
+  it("allows an empty barcode and names the expected check digit", () => {
+    expect(barcodeError("")).toBeNull();
+    expect(barcodeError("96385075")).toBe('Barcode "96385075" has the wrong check digit; it should end in 4');
+    expect(barcodeError("ABC")).toBe('Barcode "ABC" must be 8, 12 or 13 digits (EAN-8, UPC-A or EAN-13)');
+  });
+});
+
+describe("barcodeBars", () => {
+  // Black modules as a string of 1s and 0s, for comparing against the spec
+  const modules = (code: string) => {
+    const { bars, width } = barcodeBars(code);
+    const bits = Array<string>(width).fill("0");
+    bars.forEach((bar) => bits.fill("1", bar.x, bar.x + bar.width));
+    return bits.join("");
+  };
+
+  it("draws 95 modules for EAN-13 and UPC-A, and 67 for EAN-8", () => {
+    expect(barcodeBars("4006381333931").width).toBe(95);
+    expect(barcodeBars("036000291452").width).toBe(95);
+    expect(barcodeBars("96385074").width).toBe(67);
+  });
+
+  it("draws a UPC-A exactly like the EAN-13 with a leading zero", () => {
+    expect(modules("036000291452")).toBe(modules("0036000291452"));
+  });
+
+  it("encodes EAN-8 digits with guards at both ends and in the middle", () => {
+    const bits = modules("96385074");
+    expect(bits.slice(0, 3)).toBe("101");
+    expect(bits.slice(3, 10)).toBe("0001011"); // 9, L-code
+    expect(bits.slice(31, 36)).toBe("01010");
+    expect(bits.slice(36, 43)).toBe("1001110"); // 5, R-code
+    expect(bits.slice(-3)).toBe("101");
+  });
+});
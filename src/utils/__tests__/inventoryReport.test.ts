@@ -0,0 +1,87 @@
+import { autoTable, CellDef, RowInput } from "jspdf-autotable";
+import { Product } from "../../types/product";
+import { buildInventoryReport } from "../inventoryReport";
+
+// The report's layout is checked through the table it hands to jspdf-autotable
+jest.mock("jspdf", () =>
+  jest.fn().mockImplementation(() => ({
+    setFont: jest.fn(),
+    setFontSize: jest.fn(),
+    setTextColor: jest.fn(),
+    setPage: jest.fn(),
+    text: jest.fn(),
+    getNumberOfPages: () => 2,
+    internal: { pageSize: { width: 297, height: 210 } },
+  }))
+);
+jest.mock("jspdf-autotable", () => ({ autoTable: jest.fn() }));
+jest.mock("../pdfFonts", () => ({ FONT: "DejaVuSans", embedFonts: jest.fn() }));
+
+const product = (overrides: Partial<Product>): Product => ({
+  id: "p1",
+  name: "Widget",
+  category: "Electronics",
+  price: 10,
+  stock: 5,
+  description: "",
+  ...overrides,
+});
+
+// Cell text, whether the cell is a plain string or a cell definition
+const text = (row: RowInput) => (row as (string | CellDef)[]).map((cell) => (typeof cell === "string" ? cell : cell.content));
+
+const build = async (products: Product[]) => {
+  const doc = await buildInventoryReport(products, { generatedBy: "admin", generatedAt: new Date(2026, 0, 1) });
+  const [[, options]] = jest.mocked(autoTable).mock.calls;
+  return { doc, body: options.body!.map(text), foot: options.foot!.map(text) };
+};
+
+describe("buildInventoryReport", () => {
+  beforeEach(() => jest.mocked(autoTable).mockClear());
+
+  it("groups products by category, each with a subtotal row", async () => {
+    const { body } = await build([
+      product({ id: "1", name: "Tablet", price: 300, stock: 2 }),
+      product({ id: "2", name: "Atlas", category: "Books", price: 20, stock: 3, description: "Maps" }),
+      product({ id: "3", name: "Phone", price: 500, stock: 1 }),
+    ]);
+
+    expect(body).toEqual([
+      ["Books"],
+      ["Atlas", "Maps", "₹20.00", "3", "₹60.00"],
+      ["Subtotal: Books (1 product(s))", "3", "₹60.00"],
+      ["Electronics"],
+      ["Phone", "—", "₹500.00", "1", "₹500.00"],
+      ["Tablet", "—", "₹300.00", "2", "₹600.00"],
+      ["Subtotal: Electronics (2 product(s))", "3", "₹1100.00"],
+    ]);
+  });
+
+  it("values variants at their own prices in subtotals and the total", async () => {
+    const { body, foot } = await build([
+      product({ id: "1", name: "Lamp", category: "Home", price: 100, stock: 4 }),
+      product({
+        id: "2",
+        name: "Cap",
+        category: "Home",
+        price: 9,
+        stock: 3,
+        attributes: [{ name: "Size", values: ["S", "M"] }],
+        variants: [
+          { id: "s", sku: "CAP-S", options: { Size: "S" }, price: 9, stock: 1 },
+          { id: "m", sku: "CAP-M", options: { Size: "M" }, price: 12, stock: 2 },
+        ],
+      }),
+    ]);
+
+    expect(body.at(-1)).toEqual(["Subtotal: Home (2 product(s))", "7", "₹433.00"]);
+    expect(foot).toEqual([["Total inventory value", "7", "₹433.00"]]);
+  });
+
+  it("numbers every page in the footer", async () => {
+    const { doc } = await build([product({})]);
+
+    expect(doc.text).toHaveBeenCalledWith("Page 1 of 2", 283, 200, { align: "right" });
+    expect(doc.text).toHaveBeenCalledWith("Page 2 of 2", 283, 200, { align: "right" });
+  });
+});
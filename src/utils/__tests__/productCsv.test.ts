@@ -0,0 +1,326 @@
+import { Product } from "../../types/product";
+import { parseCSV, toCSV } from "../csv";
+import {
+  guessMapping,
+  importChanges,
+  importStockAdjustments,
+  planImport,
+  productsToCSV,
+  readRows,
+} from "../productCsv";
+
+const product = (overrides: Partial<Product>): Product => ({
+  id: "p1",
+  name: "Widget",
+  category: "Electronics",
+  price: 10,
+  stock: 5,
+  description: "",
+  ...overrides,
+});
+
+// Exports, re-imports with the guessed mapping, and returns the parsed rows
+const roundTrip = (products: Product[]) => {
+  const [headers, ...records] = parseCSV(productsToCSV(products));
+  return readRows(records, guessMapping(headers));
+};
+
+describe("parseCSV", () => {
+  it("reads quoted fields with commas, doubled quotes and line breaks", () => {
+    const text = 'a,"b, c","say ""hi""","line 1\r\nline 2"\r\nd,e,f,g\r\n';
+    expect(parseCSV(text)).toEqual([
+      ["a", "b, c", 'say "hi"', "line 1\r\nline 2"],
+      ["d", "e", "f", "g"],
+    ]);
+  });
+
+  it("accepts bare LF line endings, empty fields and a byte-order mark", () => {
+    expect(parseCSV("\uFEFFa,,c\n,b,\n")).toEqual([
+      ["a", "", "c"],
+      ["", "b", ""],
+    ]);
+  });
+
+  it("rejects an unterminated quoted field", () => {
+    expect(() => parseCSV('a,"b\nc')).toThrow("Unterminated quoted field");
+  });
+
+  it("reverses toCSV", () => {
+    const rows = [
+      ["plain", "with,comma", 'with "quotes"'],
+      ["multi\nline", "", "₹ 1,234.50"],
+    ];
+    expect(parseCSV(toCSV(rows))).toEqual(rows);
+  });
+});
+
+describe("CSV export round trip", () => {
+  it("re-imports exported products unchanged", () => {
+    const products = [
+      product({
+        id: "a1",
+        sku: "PHONE-PRO",
+        barcode: "0036000291452",
+        name: 'Phone, "Pro" edition',
+        price: 499.99,
+        stock: 0,
+        reorderPoint: 3,
+        description: "Fast.\nWaterproof, with a 6\" screen.",
+        images: [
+          { url: "https://example.com/phone?a=1,2", thumbnailUrl: "https://example.com/phone-thumb.webp" },
+          { url: "https://example.com/phone-back.jpg" },
+        ],
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      }),
+      product({ id: "b2", name: "Novel", category: "Books", price: 12, stock: 40, description: "Paperback" }),
+      product({
+        id: "c3",
+        name: "T-Shirt",
+        category: "Clothing",
+        price: 15,
+        stock: 7,
+        attributes: [
+          { name: "Size", values: ["M", "L"] },
+          { name: "Colour", values: ["Red"] },
+        ],
+        variants: [
+          { id: "v1", sku: "TSHIRT-M-RED", barcode: "96385074", options: { Size: "M", Colour: "Red" }, price: 15, stock: 3 },
+          { id: "v2", sku: "TSHIRT-L-RED", options: { Size: "L", Colour: "Red" }, price: 17, stock: 4, reorderPoint: 1 },
+        ],
+      }),
+    ];
+
+    const rows = roundTrip(products);
+
+    expect(rows.map((r) => r.errors)).toEqual([[], [], []]);
+    expect(rows.map((r) => r.id)).toEqual(["a1", "b2", "c3"]);
+    expect(rows[0].product).toEqual({
+      sku: "PHONE-PRO",
+      barcode: "0036000291452", // Leading zero kept
+      name: 'Phone, "Pro" edition',
+      category: "Electronics",
+      price: 499.99,
+      stock: 0,
+      reorderPoint: 3,
+      description: "Fast.\nWaterproof, with a 6\" screen.",
+      images: products[0].images,
+    });
+    expect(rows[0].imageUrl).toBe("https://example.com/phone?a=1,2");
+    expect(importChanges(rows[0]).images).toEqual(products[0].images);
+    expect(rows[1].product).toEqual({
+      name: "Novel",
+      category: "Books",
+      price: 12,
+      stock: 40,
+      description: "Paperback",
+    });
+    expect(rows[2].product.attributes).toEqual(products[2].attributes);
+    expect(rows[2].product.variants).toEqual(products[2].variants);
+  });
+
+  it("maps every exported column by its header", () => {
+    const [headers] = parseCSV(productsToCSV([]));
+    expect(guessMapping(headers)).toEqual({
+      id: 0,
+      sku: 1,
+      barcode: 2,
+      name: 3,
+      category: 4,
+      price: 5,
+      stock: 6,
+      reorderPoint: 7,
+      description: 8,
+      url: 9,
+      images: 10,
+      attributes: 11,
+      variants: 12,
+    });
+  });
+});
+
+describe("readRows", () => {
+  const mapping = { name: 0, category: 1, price: 2, stock: 3 };
+
+  it("reports every problem on a row and skips blank lines", () => {
+    const rows = readRows([["", "Books", "free", "-1"], [""], ["Atlas", "Books", "20", "2"]], mapping);
+    expect(rows).toHaveLength(2);
+    expect(rows[0].errors).toEqual([
+      "Name is required",
+      'Price must be a number above 0 (got "free")',
+      'Stock must be a whole number of 0 or more (got "-1")',
+    ]);
+    expect(rows[1]).toMatchObject({ index: 3, errors: [] });
+  });
+
+  it("flags required fields that are not mapped", () => {
+    const [row] = readRows([["Atlas"]], { name: 0 });
+    expect(row.errors).toEqual([
+      "Category column is not mapped",
+      "Price column is not mapped",
+      "Stock column is not mapped",
+    ]);
+  });
+});
+
+describe("importChanges", () => {
+  const target = product({
+    images: [
+      { url: "https://example.com/a.jpg", thumbnailUrl: "https://example.com/a-thumb.webp" },
+      { url: "https://example.com/b.jpg" },
+    ],
+  });
+
+  it("makes a URL the primary image and keeps the rest of the gallery", () => {
+    const [row] = readRows([["https://example.com/b.jpg"]], { url: 0 });
+    expect(importChanges(row, target).images).toEqual([{ url: "https://example.com/b.jpg" }, target.images![0]]);
+  });
+
+  it("rejects a barcode with the wrong check digit", () => {
+    const [row] = readRows([["4006381333932"]], { barcode: 0 });
+    expect(row.errors).toContain('Barcode "4006381333932" has the wrong check digit; it should end in 1');
+  });
+
+  it("rejects an Images cell that is not a list of images", () => {
+    const [row] = readRows([['[{"src":"x"}]']], { images: 0 });
+    expect(row.errors).toContain("Images must be a JSON list of { url, thumbnailUrl } entries");
+  });
+});
+
+describe("variants columns", () => {
+  const mapping = { price: 0, stock: 1, attributes: 2, variants: 3 };
+  const attributes = JSON.stringify([{ name: "Size", values: ["S", "M"] }]);
+
+  it("takes price and stock from the variants", () => {
+    const variants = JSON.stringify([
+      { sku: "CAP-S", options: { Size: "S" }, price: 9, stock: 2 },
+      { sku: "CAP-M", options: { Size: "M" }, price: 8, stock: 5 },
+    ]);
+    const [row] = readRows([["20", "1", attributes, variants]], mapping);
+    expect(importChanges(row)).toMatchObject({ price: 8, stock: 7 });
+    expect(row.product.variants!.map((v) => v.id)).toEqual(["", ""]); // Assigned by the API
+  });
+
+  it("rejects variants that repeat a SKU", () => {
+    const variants = JSON.stringify([
+      { sku: "CAP", options: { Size: "S" }, price: 9, stock: 2 },
+      { sku: "cap", options: { Size: "M" }, price: 8, stock: 5 },
+    ]);
+    const [row] = readRows([["20", "1", attributes, variants]], mapping);
+    expect(row.errors).toContain('SKU "cap" is used by more than one variant');
+  });
+
+  it("rejects a Variants cell that is not a list of variants", () => {
+    const [row] = readRows([["20", "1", attributes, '[{"sku":"CAP-S"}]']], mapping);
+    expect(row.errors).toContain("Variants must be a JSON list of { sku, options, price, stock } entries");
+  });
+});
+
+describe("importStockAdjustments", () => {
+  it("corrects a product's stock to the row's", () => {
+    const [row] = readRows([["8"]], { stock: 0 });
+    expect(importStockAdjustments(row, product({ stock: 5 }))).toEqual([
+      { delta: 3, reason: "correction", note: "Imported from file" },
+    ]);
+    expect(importStockAdjustments(row, product({ stock: 8 }))).toEqual([]);
+  });
+
+  it("corrects saved variants by id and leaves new ones alone", () => {
+    const saved = product({
+      attributes: [{ name: "Size", values: ["S", "M", "L"] }],
+      variants: [
+        { id: "v1", sku: "CAP-S", options: { Size: "S" }, price: 9, stock: 4 },
+        { id: "v2", sku: "CAP-M", options: { Size: "M" }, price: 9, stock: 5 },
+        { id: "v3", sku: "CAP-L", options: { Size: "L" }, price: 9, stock: 6 },
+      ],
+    });
+    const variants = JSON.stringify([
+      { id: "v1", sku: "CAP-S", options: { Size: "S" }, price: 9, stock: 1 },
+      { id: "v2", sku: "CAP-M", options: { Size: "M" }, price: 9, stock: 5 },
+      { sku: "CAP-XL", options: { Size: "L" }, price: 9, stock: 2 },
+    ]);
+    const [row] = readRows([[JSON.stringify(saved.attributes), variants]], { attributes: 0, variants: 1 });
+    expect(importStockAdjustments(row, saved)).toEqual([
+      { delta: -3, reason: "correction", note: "Imported from file", variantId: "v1" },
+    ]);
+  });
+});
+
+describe("planImport", () => {
+  const existing = [product({ id: "p1", name: "Widget" }), product({ id: "p2", name: "Gadget" })];
+  const mapping = { id: 0, name: 1, category: 2, price: 3, stock: 4 };
+  const rows = readRows(
+    [
+      ["p1", "Widget", "Electronics", "11", "6"],
+      ["x9", "Gizmo", "Electronics", "5", "1"],
+      ["p2", "widget", "Electronics", "5", "1"],
+    ],
+    mapping
+  );
+
+  it("creates only new names in create mode", () => {
+    expect(planImport(rows, existing, "create").map((a) => a.action)).toEqual(["skip", "create", "skip"]);
+  });
+
+  it("updates by id and refuses to rename onto another product's name", () => {
+    const plan = planImport(rows, existing, "upsert-id");
+    expect(plan.map((a) => a.action)).toEqual(["update", "create", "skip"]);
+    expect(plan[0].target?.id).toBe("p1");
+    expect(plan[2].reason).toBe('"widget" appears more than once in the file');
+  });
+
+  it("matches names case-insensitively when updating by name", () => {
+    const plan = planImport(rows, existing, "upsert-name");
+    expect(plan.map((a) => a.action)).toEqual(["update", "create", "skip"]);
+    expect(plan[2].reason).toBe('"widget" appears more than once in the file');
+  });
+
+  it("skips rows with errors, giving every problem as the reason", () => {
+    const [row] = readRows([["p1", "", "Electronics", "free", "1"]], mapping);
+    const [action] = planImport([row], existing, "upsert-id");
+    expect(action).toMatchObject({
+      action: "skip",
+      reason: 'Name is required; Price must be a number above 0 (got "free")',
+    });
+  });
+
+  it("creates rows whose id matches no product when updating by id", () => {
+    const [row] = readRows([["x9", "Gizmo", "Electronics", "5", "1"]], mapping);
+    expect(planImport([row], existing, "upsert-id")).toEqual([{ row, action: "create" }]);
+  });
+
+  it("lets an update by id rename a product, but not onto another's name", () => {
+    const renames = readRows(
+      [
+        ["p1", "Widget Pro", "Electronics", "11", "6"],
+        ["p2", "WIDGET PRO", "Electronics", "5", "1"],
+      ],
+      mapping
+    );
+    const plan = planImport(renames, [...existing, product({ id: "p3", name: "Sprocket" })], "upsert-id");
+    expect(plan.map((a) => a.action)).toEqual(["update", "skip"]);
+
+    const [onto] = readRows([["p1", "gadget", "Electronics", "5", "1"]], mapping);
+    expect(planImport([onto], existing, "upsert-id")[0]).toMatchObject({
+      action: "skip",
+      reason: 'A product named "Gadget" already exists',
+    });
+  });
+
+  it("updates a product only once when two rows point at it", () => {
+    const twice = readRows(
+      [
+        ["p1", "Widget", "Electronics", "11", "6"],
+        ["p1", "Widget Mini", "Electronics", "5", "1"],
+      ],
+      mapping
+    );
+    const plan = planImport(twice, existing, "upsert-id");
+    expect(plan.map((a) => a.action)).toEqual(["update", "skip"]);
+    expect(plan[1].reason).toBe('"Widget" is already updated by an earlier row');
+  });
+
+  it("ignores the id column when updating by name", () => {
+    const [row] = readRows([["p2", "WIDGET", "Electronics", "5", "1"]], mapping);
+    expect(planImport([row], existing, "upsert-name")[0].target?.id).toBe("p1");
+  });
+});
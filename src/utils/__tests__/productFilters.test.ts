@@ -0,0 +1,61 @@
+import { productQueryParams, readListParams, SORT_FIELDS, withListChanges } from "../productFilters";
+
+describe("productQueryParams", () => {
+  it("sends only the filters that are set", () => {
+    expect(productQueryParams({ q: "  lamp ", category: "", sort: undefined }).toString()).toBe("q=lamp");
+    expect(productQueryParams({}).toString()).toBe("");
+  });
+
+  it("maps the sort and adds paging for a page", () => {
+    const params = productQueryParams({
+      q: "desk",
+      category: "Home & Garden",
+      sort: SORT_FIELDS["price-desc"],
+      page: 2,
+      perPage: 9,
+    });
+    expect([...params]).toEqual([
+      ["q", "desk"],
+      ["category", "Home & Garden"],
+      ["_sort", "-price"],
+      ["_page", "2"],
+      ["_per_page", "9"],
+    ]);
+  });
+});
+
+describe("readListParams", () => {
+  it("reads the filters from the URL", () => {
+    expect(readListParams(new URLSearchParams("q=lamp&category=Home&sort=name-asc&page=3"))).toEqual({
+      search: "lamp",
+      category: "Home",
+      sortBy: "name-asc",
+      page: 3,
+    });
+  });
+
+  it.each(["", "page=0", "page=-2", "page=abc"])("starts on page 1 for %p", (query) => {
+    expect(readListParams(new URLSearchParams(query)).page).toBe(1);
+  });
+});
+
+describe("withListChanges", () => {
+  const current = new URLSearchParams("q=lamp&category=Home&page=4");
+
+  it("goes back to the first page when a filter changes", () => {
+    expect(withListChanges(current, { category: "Toys" }).toString()).toBe("q=lamp&category=Toys");
+  });
+
+  it("removes cleared filters", () => {
+    expect(withListChanges(current, { q: "" }).toString()).toBe("category=Home");
+  });
+
+  it("keeps the filters when only the page changes", () => {
+    expect(withListChanges(current, { page: "5" }).toString()).toBe("q=lamp&category=Home&page=5");
+  });
+
+  it("leaves the current URL untouched", () => {
+    withListChanges(current, { q: "desk" });
+    expect(current.toString()).toBe("q=lamp&category=Home&page=4");
+  });
+});
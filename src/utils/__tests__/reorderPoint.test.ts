@@ -0,0 +1,40 @@
+import { Category } from "../../types/category";
+import { isLowStock, parseReorderPoint, resolveReorderPoint } from "../reorderPoint";
+
+const category = (overrides: Partial<Category>): Category => ({
+  id: "c1",
+  name: "Home",
+  position: 0,
+  archived: false,
+  ...overrides,
+});
+
+describe("resolveReorderPoint", () => {
+  const categories = [category({ reorderPoint: 4 }), category({ id: "c2", name: "Books", reorderPoint: null })];
+
+  it("prefers the product's own reorder point, even 0", () => {
+    expect(resolveReorderPoint({ category: "Home", reorderPoint: 7 }, categories, 10)).toBe(7);
+    expect(resolveReorderPoint({ category: "Home", reorderPoint: 0 }, categories, 10)).toBe(0);
+  });
+
+  it("falls back to the category default, then the store default", () => {
+    expect(resolveReorderPoint({ category: "Home" }, categories, 10)).toBe(4);
+    expect(resolveReorderPoint({ category: "Books" }, categories, 10)).toBe(10);
+    expect(resolveReorderPoint({ category: "Garden" }, categories, 12)).toBe(12);
+  });
+});
+
+describe("isLowStock", () => {
+  it("counts stock at the reorder point as low", () => {
+    expect([isLowStock(3, 4), isLowStock(4, 4), isLowStock(5, 4)]).toEqual([true, true, false]);
+  });
+});
+
+describe("parseReorderPoint", () => {
+  it("reads an empty field as inherit and clamps to a whole number of 0 or more", () => {
+    expect(parseReorderPoint("")).toBeUndefined();
+    expect(parseReorderPoint("6")).toBe(6);
+    expect(parseReorderPoint("2.7")).toBe(2);
+    expect(parseReorderPoint("-3")).toBe(0);
+  });
+});
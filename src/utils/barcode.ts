@@ -0,0 +1,70 @@
+// EAN-8, UPC-A and EAN-13 barcodes: check digits and the bar pattern to draw.
+// Keep in sync with api/_lib/identifiers.js
+
+const BARCODE_LENGTHS = [8, 12, 13];
+
+// Weights alternate 3, 1, 3, ... from the digit next to the check digit
+export const checkDigit = (digits: string) => {
+  const sum = [...digits].reverse().reduce((acc, d, i) => acc + Number(d) * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+export const isValidBarcode = (code: string) =>
+  /^\d+$/.test(code) &&
+  BARCODE_LENGTHS.includes(code.length) &&
+  checkDigit(code.slice(0, -1)) === Number(code.slice(-1));
+
+// The first problem with a barcode, or null. Empty means "no barcode".
+export const barcodeError = (code: string) => {
+  if (code === "" || isValidBarcode(code)) return null;
+  if (!/^\d+$/.test(code) || !BARCODE_LENGTHS.includes(code.length)) {
+    return `Barcode "${code}" must be 8, 12 or 13 digits (EAN-8, UPC-A or EAN-13)`;
+  }
+  return `Barcode "${code}" has the wrong check digit; it should end in ${checkDigit(code.slice(0, -1))}`;
+};
+
+// Seven-module patterns per digit: L and G on the left half, R on the right
+const L_CODES = ["0001101", "0011001", "0010011", "0111101", "0100011", "0110001", "0101111", "0111011", "0110111", "0001011"];
+const R_CODES = L_CODES.map((code) => [...code].map((bit) => (bit === "1" ? "0" : "1")).join(""));
+const G_CODES = R_CODES.map((code) => [...code].reverse().join(""));
+// An EAN-13's first digit is not drawn; it picks L or G for each left-hand digit
+const PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"];
+
+export interface BarcodeBar {
+  x: number; // In modules, from the left edge of the bars
+  width: number;
+  guard: boolean; // Start, middle and end guards are drawn longer
+}
+
+// Black bars of a valid barcode, in modules. A UPC-A is drawn as the EAN-13
+// it is equal to, with a leading zero.
+export const barcodeBars = (code: string): { bars: BarcodeBar[]; width: number } => {
+  const digits = code.length === 12 ? `0${code}` : code;
+  const half = digits.length === 8 ? 4 : 6;
+  const left = digits.slice(digits.length - half * 2, digits.length - half);
+  const right = digits.slice(digits.length - half);
+  const parity = digits.length === 8 ? "LLLL" : PARITY[Number(digits[0])];
+
+  const segments: { pattern: string; guard: boolean }[] = [
+    { pattern: "101", guard: true },
+    ...[...left].map((d, i) => ({ pattern: (parity[i] === "L" ? L_CODES : G_CODES)[Number(d)], guard: false })),
+    { pattern: "01010", guard: true },
+    ...[...right].map((d) => ({ pattern: R_CODES[Number(d)], guard: false })),
+    { pattern: "101", guard: true },
+  ];
+
+  const bars: BarcodeBar[] = [];
+  let x = 0;
+  segments.forEach(({ pattern, guard }) => {
+    [...pattern].forEach((bit) => {
+      const previous = bars[bars.length - 1];
+      if (bit === "1") {
+        // Adjacent black modules of the same height are drawn as one bar
+        if (previous && previous.x + previous.width === x && previous.guard === guard) previous.width += 1;
+        else bars.push({ x, width: 1, guard });
+      }
+      x += 1;
+    });
+  });
+  return { bars, width: x };
+};
@@ -0,0 +1,13 @@
+const PALETTE = [
+  "#3b82f6",
+  "#10b981",
+  "#f97316",
+  "#8b5cf6",
+  "#ef4444",
+  "#14b8a6",
+  "#eab308",
+  "#ec4899",
+];
+
+// Colour for the category at this position in the category list
+export const categoryColor = (index: number) => PALETTE[index % PALETTE.length];
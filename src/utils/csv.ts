@@ -0,0 +1,67 @@
+// RFC 4180 CSV: fields containing commas, quotes or line breaks are quoted,
+// quotes inside them are doubled, and records end with CRLF
+
+const needsQuotes = (field: string) => /[",\r\n]/.test(field);
+
+export const toCSV = (rows: string[][]) =>
+  rows
+    .map((row) => row.map((field) => (needsQuotes(field) ? `"${field.replace(/"/g, '""')}"` : field)).join(","))
+    .join("\r\n");
+
+// Accepts CRLF or bare LF line endings and a leading byte-order mark.
+// Throws on a quoted field that is never closed.
+export const parseCSV = (text: string): string[][] => {
+  const input = text.startsWith("\uFEFF") ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let i = 0;
+
+  const endField = () => {
+    row.push(field);
+    field = "";
+  };
+  const endRow = () => {
+    endField();
+    rows.push(row);
+    row = [];
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+    if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === ",") {
+      endField();
+    } else if (char === "\r" && input[i + 1] === "\n") {
+      endRow();
+      i++;
+    } else if (char === "\n" || char === "\r") {
+      endRow();
+    } else {
+      field += char;
+    }
+    i++;
+  }
+  if (inQuotes) {
+    throw new Error("Unterminated quoted field");
+  }
+  // A final line break does not start another record
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+};
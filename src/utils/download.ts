@@ -0,0 +1,8 @@
+// Saves a blob through a temporary link, as the browser's download
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
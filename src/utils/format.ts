@@ -0,0 +1,2 @@
+// Prices are stored in rupees
+export const formatPrice = (amount: number) => `₹${amount.toFixed(2)}`;
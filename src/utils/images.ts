@@ -0,0 +1,19 @@
+import { Product, ProductPhoto } from "../types/product";
+
+export const primaryImage = (product: Pick<Product, "images">): ProductPhoto | undefined => product.images?.[0];
+
+// Smallest version of an image that still looks right at card size
+export const thumbnailSrc = (image?: ProductPhoto) => image?.thumbnailUrl || image?.url;
+
+// Puts the image with this url first, keeping its thumbnail if it is already in the list
+export const withPrimaryImage = (images: ProductPhoto[], url: string): ProductPhoto[] => [
+  images.find((image) => image.url === url) ?? { url },
+  ...images.filter((image) => image.url !== url),
+];
+
+export const moveImage = (images: ProductPhoto[], from: number, to: number) => {
+  const next = [...images];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
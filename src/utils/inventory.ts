@@ -0,0 +1,10 @@
+import { Product } from "../types/product";
+
+// Variants are valued at their own prices
+export const stockValue = (product: Product) =>
+  product.variants?.length
+    ? product.variants.reduce((acc, v) => acc + v.price * v.stock, 0)
+    : product.price * product.stock;
+
+// Value of everything on hand; the dashboard and the PDF report both total this way
+export const inventoryValue = (products: Product[]) => products.reduce((acc, p) => acc + stockValue(p), 0);
@@ -0,0 +1,89 @@
+import jsPDF from "jspdf";
+import { autoTable, RowInput, Styles } from "jspdf-autotable";
+import { Product } from "../types/product";
+import { formatPrice } from "./format";
+import { inventoryValue, stockValue } from "./inventory";
+import { embedFonts, FONT } from "./pdfFonts";
+
+const MARGIN = 14;
+const COLUMN_COUNT = 5;
+const CATEGORY_STYLES: Partial<Styles> = { fontStyle: "bold", fillColor: [224, 231, 255] };
+const SUBTOTAL_STYLES: Partial<Styles> = { fontStyle: "bold", fillColor: [243, 244, 246] };
+
+const totalStock = (products: Product[]) => products.reduce((acc, p) => acc + p.stock, 0);
+
+// One block per category: a heading row, its products, then a subtotal row
+const categoryRows = (category: string, products: Product[]): RowInput[] => [
+  [{ content: category, colSpan: COLUMN_COUNT, styles: CATEGORY_STYLES }],
+  ...products.map((p) => [p.name, p.description || "—", formatPrice(p.price), String(p.stock), formatPrice(stockValue(p))]),
+  [
+    { content: `Subtotal: ${category} (${products.length} product(s))`, colSpan: 3, styles: SUBTOTAL_STYLES },
+    { content: String(totalStock(products)), styles: SUBTOTAL_STYLES },
+    { content: formatPrice(inventoryValue(products)), styles: SUBTOTAL_STYLES },
+  ],
+];
+
+export interface InventoryReportOptions {
+  generatedBy: string;
+  generatedAt?: Date;
+}
+
+// Builds a paginated inventory table grouped by category, with the column
+// headers on every page and a page number / generated-by footer
+export const buildInventoryReport = async (
+  products: Product[],
+  { generatedBy, generatedAt = new Date() }: InventoryReportOptions
+) => {
+  const doc = new jsPDF({ orientation: "landscape" });
+  await embedFonts(doc);
+
+  const byCategory = new Map<string, Product[]>();
+  [...products]
+    .sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name))
+    .forEach((p) => byCategory.set(p.category, [...(byCategory.get(p.category) ?? []), p]));
+
+  doc.setFont(FONT, "bold");
+  doc.setFontSize(16);
+  doc.text("Inventory Report", MARGIN, 18);
+  doc.setFont(FONT, "normal");
+  doc.setFontSize(10);
+  doc.text(`${products.length} product(s) in ${byCategory.size} categor${byCategory.size === 1 ? "y" : "ies"}`, MARGIN, 25);
+
+  autoTable(doc, {
+    startY: 30,
+    margin: { left: MARGIN, right: MARGIN, bottom: 20 },
+    head: [["Name", "Description", "Price", "Stock", "Value"]],
+    body: [...byCategory].flatMap(([category, items]) => categoryRows(category, items)),
+    foot: [
+      [
+        { content: "Total inventory value", colSpan: 3 },
+        String(totalStock(products)),
+        formatPrice(inventoryValue(products)),
+      ],
+    ],
+    showHead: "everyPage",
+    showFoot: "lastPage",
+    rowPageBreak: "avoid",
+    styles: { font: FONT, fontSize: 9, overflow: "linebreak", valign: "top" },
+    headStyles: { fontStyle: "bold", fillColor: [37, 99, 235] },
+    footStyles: { fontStyle: "bold", fillColor: [22, 163, 74] },
+    columnStyles: {
+      0: { cellWidth: 55 },
+      2: { cellWidth: 28, halign: "right" },
+      3: { cellWidth: 20, halign: "right" },
+      4: { cellWidth: 32, halign: "right" },
+    },
+  });
+
+  // Footers go on last, once the page count is known
+  const pageCount = doc.getNumberOfPages();
+  const { width, height } = doc.internal.pageSize;
+  doc.setFontSize(8);
+  doc.setTextColor(107, 114, 128);
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.text(`Generated ${generatedAt.toLocaleString()} by ${generatedBy}`, MARGIN, height - 10);
+    doc.text(`Page ${page} of ${pageCount}`, width - MARGIN, height - 10, { align: "right" });
+  }
+  return doc;
+};
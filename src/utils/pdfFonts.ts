@@ -0,0 +1,45 @@
+import type jsPDF from "jspdf";
+import dejaVuSansUrl from "dejavu-fonts-ttf/ttf/DejaVuSans.ttf?url";
+import dejaVuSansBoldUrl from "dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf?url";
+
+// jsPDF's built-in fonts are Latin-1 only and have no ₹, so a Unicode font is embedded
+export const FONT = "DejaVuSans";
+const FONT_FILES = [
+  { file: "DejaVuSans.ttf", url: dejaVuSansUrl, style: "normal" },
+  { file: "DejaVuSans-Bold.ttf", url: dejaVuSansBoldUrl, style: "bold" },
+];
+
+// Base64 font files, fetched once per session
+const fontCache = new Map<string, Promise<string>>();
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fetchFont = (url: string) => {
+  if (!fontCache.has(url)) {
+    const loading = fetch(url)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Could not load the PDF font (${response.status})`);
+        return response.arrayBuffer();
+      })
+      .then(toBase64);
+    loading.catch(() => fontCache.delete(url)); // Let the next export retry
+    fontCache.set(url, loading);
+  }
+  return fontCache.get(url)!;
+};
+
+export const embedFonts = async (doc: jsPDF) => {
+  const files = await Promise.all(FONT_FILES.map(({ url }) => fetchFont(url)));
+  FONT_FILES.forEach(({ file, style }, i) => {
+    doc.addFileToVFS(file, files[i]);
+    doc.addFont(file, FONT, style);
+  });
+  doc.setFont(FONT, "normal");
+};
@@ -0,0 +1,35 @@
+import { Role, User } from "../types/user";
+
+// Keep in sync with api/_lib/permissions.js
+export type Permission =
+  | "products:write"
+  | "products:delete"
+  | "categories:manage"
+  | "stock:adjust"
+  | "reports:view"
+  | "users:manage"
+  | "settings:manage"
+  | "cart:use"
+  | "orders:view"
+  | "orders:manage"
+  | "audit:view";
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: [
+    "products:write",
+    "products:delete",
+    "categories:manage",
+    "stock:adjust",
+    "reports:view",
+    "users:manage",
+    "settings:manage",
+    "orders:view",
+    "orders:manage",
+    "audit:view",
+  ],
+  clerk: ["stock:adjust", "reports:view"],
+  user: ["cart:use", "orders:view"],
+};
+
+export const hasPermission = (user: User | null, permission: Permission) =>
+  user !== null && (ROLE_PERMISSIONS[user.role] ?? []).includes(permission);
@@ -0,0 +1,308 @@
+import { NewProduct, Product, ProductPhoto, ProductVariant, VariantAttribute } from "../types/product";
+import { StockAdjustment } from "../types/stock";
+import { toCSV } from "./csv";
+import { barcodeError } from "./barcode";
+import { primaryImage, withPrimaryImage } from "./images";
+import { applyVariants, validateVariants } from "./variants";
+
+// Product fields a CSV column can be mapped to. "url" is the primary image,
+// kept from before galleries; "images" is the whole gallery as JSON, and
+// "attributes" and "variants" are JSON too.
+export type ImportField =
+  | "id"
+  | "sku"
+  | "barcode"
+  | "name"
+  | "category"
+  | "price"
+  | "stock"
+  | "reorderPoint"
+  | "description"
+  | "url"
+  | "images"
+  | "attributes"
+  | "variants";
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: "id", label: "ID", required: false },
+  { field: "sku", label: "SKU", required: false },
+  { field: "barcode", label: "Barcode", required: false },
+  { field: "name", label: "Name", required: true },
+  { field: "category", label: "Category", required: true },
+  { field: "price", label: "Price", required: true },
+  { field: "stock", label: "Stock", required: true },
+  { field: "reorderPoint", label: "Reorder Point", required: false },
+  { field: "description", label: "Description", required: false },
+  { field: "url", label: "URL", required: false },
+  { field: "images", label: "Images", required: false },
+  { field: "attributes", label: "Attributes", required: false },
+  { field: "variants", label: "Variants", required: false },
+];
+
+// Field -> index of the column it is read from
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export type ImportMode = "create" | "upsert-id" | "upsert-name";
+
+export interface ImportRow {
+  index: number; // 1-based record number, not counting the header
+  id?: string;
+  product: Partial<NewProduct>; // Only the mapped fields
+  imageUrl?: string; // Primary image, applied by importChanges
+  errors: string[];
+}
+
+export interface ImportAction {
+  row: ImportRow;
+  action: "create" | "update" | "skip";
+  target?: Product; // The product an update applies to
+  reason?: string; // Why a row is skipped
+}
+
+// The gallery as JSON, or empty when there are no images
+export const imagesCell = (product: Product) => (product.images?.length ? JSON.stringify(product.images) : "");
+
+// Variant definitions as JSON, or empty for products sold as a single item
+export const attributesCell = (product: Product) =>
+  product.variants?.length ? JSON.stringify(product.attributes ?? []) : "";
+export const variantsCell = (product: Product) => (product.variants?.length ? JSON.stringify(product.variants) : "");
+
+const parseJson = (value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const parseAttributes = (value: string): VariantAttribute[] | null => {
+  const attributes = parseJson(value);
+  const isAttribute = (a: VariantAttribute) => a && isString(a.name) && Array.isArray(a.values) && a.values.every(isString);
+  if (!Array.isArray(attributes) || !attributes.every(isAttribute)) return null;
+  return attributes.map(({ name, values }: VariantAttribute) => ({ name, values }));
+};
+
+// Variants without an id are new; the API assigns one
+const parseVariants = (value: string): ProductVariant[] | null => {
+  const variants = parseJson(value);
+  const isVariant = (v: ProductVariant) =>
+    v &&
+    isString(v.sku) &&
+    typeof v.options === "object" &&
+    v.options !== null &&
+    Object.values(v.options).every(isString) &&
+    typeof v.price === "number" &&
+    typeof v.stock === "number" &&
+    ["number", "undefined"].includes(typeof v.reorderPoint) &&
+    ["string", "undefined"].includes(typeof v.barcode) &&
+    ["string", "undefined"].includes(typeof v.id);
+  if (!Array.isArray(variants) || !variants.every(isVariant)) return null;
+  return variants.map(({ id, sku, barcode, options, price, stock, reorderPoint }: ProductVariant) => ({
+    id: id ?? "",
+    sku,
+    ...(barcode ? { barcode } : {}),
+    options,
+    price,
+    stock,
+    ...(reorderPoint === undefined ? {} : { reorderPoint }),
+  }));
+};
+
+const parseImages = (value: string): ProductPhoto[] | null => {
+  try {
+    const images = JSON.parse(value);
+    const isImage = (i: ProductPhoto) =>
+      i && typeof i.url === "string" && i.url !== "" && ["string", "undefined"].includes(typeof i.thumbnailUrl);
+    if (!Array.isArray(images) || !images.every(isImage)) return null;
+    return images.map(({ url, thumbnailUrl }: ProductPhoto) => (thumbnailUrl ? { url, thumbnailUrl } : { url }));
+  } catch {
+    return null;
+  }
+};
+
+export const productsToCSV = (products: Product[]) =>
+  toCSV([
+    [...IMPORT_FIELDS.map((f) => f.label), "UpdatedAt"],
+    ...products.map((p) => [
+      p.id,
+      p.sku || "",
+      p.barcode || "",
+      p.name,
+      p.category,
+      String(p.price),
+      String(p.stock),
+      p.reorderPoint === undefined ? "" : String(p.reorderPoint),
+      p.description,
+      primaryImage(p)?.url || "",
+      imagesCell(p),
+      attributesCell(p),
+      variantsCell(p),
+      p.updatedAt || "",
+    ]),
+  ]);
+
+const normalise = (header: string) => header.toLowerCase().replace(/[^a-z]/g, "");
+
+// Matches headers to fields by name or label, ignoring case, spaces and punctuation
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(({ field, label }) => {
+    const index = headers.findIndex((h) => [normalise(field), normalise(label)].includes(normalise(h)));
+    if (index !== -1) mapping[field] = index;
+  });
+  return mapping;
+};
+
+const isWholeNumber = (value: string) => /^\d+$/.test(value);
+
+// Turns data records (header excluded) into products, collecting every problem per row
+export const readRows = (records: string[][], mapping: ColumnMapping): ImportRow[] =>
+  records
+    .map((record, i) => ({ record, index: i + 1 }))
+    .filter(({ record }) => record.some((value) => value.trim() !== "")) // Blank lines
+    .map(({ record, index }) => {
+      const value = (field: ImportField) => {
+        const column = mapping[field];
+        return column === undefined ? undefined : (record[column] ?? "").trim();
+      };
+      const product: Partial<NewProduct> = {};
+      const errors = IMPORT_FIELDS.filter((f) => f.required && mapping[f.field] === undefined).map(
+        (f) => `${f.label} column is not mapped`
+      );
+
+      const sku = value("sku");
+      if (sku) product.sku = sku;
+      const barcode = value("barcode");
+      if (barcode) {
+        const invalid = barcodeError(barcode);
+        if (invalid) errors.push(invalid);
+        else product.barcode = barcode;
+      }
+      const name = value("name");
+      if (name !== undefined) {
+        if (name) product.name = name;
+        else errors.push("Name is required");
+      }
+      const category = value("category");
+      if (category !== undefined) {
+        if (category) product.category = category;
+        else errors.push("Category is required");
+      }
+      const price = value("price");
+      if (price !== undefined) {
+        const parsed = Number(price);
+        if (price && Number.isFinite(parsed) && parsed > 0) product.price = parsed;
+        else errors.push(`Price must be a number above 0 (got "${price}")`);
+      }
+      const stock = value("stock");
+      if (stock !== undefined) {
+        if (isWholeNumber(stock)) product.stock = Number(stock);
+        else errors.push(`Stock must be a whole number of 0 or more (got "${stock}")`);
+      }
+      const reorderPoint = value("reorderPoint");
+      if (reorderPoint) {
+        if (isWholeNumber(reorderPoint)) product.reorderPoint = Number(reorderPoint);
+        else errors.push(`Reorder point must be a whole number of 0 or more (got "${reorderPoint}")`);
+      }
+      const description = value("description");
+      if (description !== undefined) product.description = description;
+      let imageUrl: string | undefined;
+      const url = value("url");
+      if (url) {
+        try {
+          new URL(url);
+          imageUrl = url;
+        } catch {
+          errors.push(`URL is not valid (got "${url}")`);
+        }
+      }
+      const images = value("images");
+      if (images) {
+        const parsed = parseImages(images);
+        if (parsed) product.images = parsed;
+        else errors.push("Images must be a JSON list of { url, thumbnailUrl } entries");
+      }
+      const attributes = value("attributes");
+      const variants = value("variants");
+      if (attributes || variants) {
+        const parsedAttributes = parseAttributes(attributes || "[]");
+        const parsedVariants = parseVariants(variants || "[]");
+        if (!parsedAttributes) errors.push("Attributes must be a JSON list of { name, values } entries");
+        if (!parsedVariants) errors.push("Variants must be a JSON list of { sku, options, price, stock } entries");
+        if (parsedAttributes && parsedVariants) {
+          const variantsError =
+            parsedVariants.length > 0 && parsedAttributes.length === 0
+              ? "Variants need at least one attribute"
+              : validateVariants(parsedAttributes, parsedVariants);
+          if (variantsError) errors.push(variantsError);
+          else if (parsedVariants.length > 0) Object.assign(product, { attributes: parsedAttributes, variants: parsedVariants });
+        }
+      }
+
+      return { index, id: value("id") || undefined, product, imageUrl, errors };
+    });
+
+// What to send for a row. A URL on its own becomes the primary image, keeping
+// the rest of the gallery of the product it updates. With variants, the price
+// and stock columns give way to the variants' own.
+export const importChanges = ({ product, imageUrl }: ImportRow, target?: Product): Partial<NewProduct> => {
+  const changes = applyVariants(product);
+  return imageUrl ? { ...changes, images: withPrimaryImage(product.images ?? target?.images ?? [], imageUrl) } : changes;
+};
+
+// Updates leave saved stock alone, so a row's stock is applied afterwards as
+// corrections against the saved product: per variant, matched by id, where it
+// has variants. Variants new to the product got their stock with the update.
+export const importStockAdjustments = ({ product }: ImportRow, saved: Product): StockAdjustment[] => {
+  const note = "Imported from file";
+  if (saved.variants?.length) {
+    return (product.variants ?? []).flatMap((variant) => {
+      const current = saved.variants!.find((v) => v.id === variant.id);
+      const delta = current ? variant.stock - current.stock : 0;
+      return delta !== 0 ? [{ delta, reason: "correction" as const, note, variantId: variant.id }] : [];
+    });
+  }
+  const delta = product.stock === undefined ? 0 : product.stock - saved.stock;
+  return delta !== 0 ? [{ delta, reason: "correction", note }] : [];
+};
+
+// Decides what happens to each row without touching the server. Names stay
+// unique across the store and within the file, matching the product form.
+export const planImport = (rows: ImportRow[], existing: Product[], mode: ImportMode): ImportAction[] => {
+  const byName = (name: string) => existing.find((p) => p.name.toLowerCase() === name.toLowerCase());
+  const claimedNames = new Set<string>();
+  const updatedIds = new Set<string>();
+
+  return rows.map((row): ImportAction => {
+    if (row.errors.length > 0) {
+      return { row, action: "skip", reason: row.errors.join("; ") };
+    }
+    const name = row.product.name!;
+    const target =
+      mode === "upsert-id"
+        ? existing.find((p) => p.id === row.id)
+        : mode === "upsert-name"
+          ? byName(name)
+          : undefined;
+
+    if (claimedNames.has(name.toLowerCase())) {
+      return { row, action: "skip", reason: `"${name}" appears more than once in the file` };
+    }
+    if (target && updatedIds.has(target.id)) {
+      return { row, action: "skip", reason: `"${target.name}" is already updated by an earlier row` };
+    }
+    const owner = byName(name);
+    if (owner && owner.id !== target?.id) {
+      return { row, action: "skip", reason: `A product named "${owner.name}" already exists` };
+    }
+
+    claimedNames.add(name.toLowerCase());
+    if (target) {
+      updatedIds.add(target.id);
+      return { row, action: "update", target };
+    }
+    return { row, action: "create" };
+  });
+};
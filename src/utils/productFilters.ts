@@ -0,0 +1,56 @@
+// The product list's filters live in the URL (?q=&category=&sort=&page=) so a
+// filtered view can be bookmarked; the API gets them as its own query string.
+// Keep the query string in sync with api/_lib/query.js
+
+export interface ProductFilters {
+  q?: string; // Name or SKU contains, ignoring case
+  category?: string;
+  sort?: string; // Field name, prefixed with "-" for descending
+}
+
+export interface ProductQuery extends ProductFilters {
+  page: number;
+  perPage: number;
+}
+
+// Sort options shown in the select, mapped to the API's _sort parameter
+export const SORT_FIELDS: Record<string, string> = {
+  "price-asc": "price",
+  "price-desc": "-price",
+  "name-asc": "name",
+  "name-desc": "-name",
+};
+
+// What the list shows for a URL; unknown sorts and bad pages fall back to the defaults
+export const readListParams = (params: URLSearchParams) => ({
+  search: params.get("q") ?? "",
+  category: params.get("category") ?? "",
+  sortBy: params.get("sort") ?? "",
+  page: Math.max(Math.floor(Number(params.get("page"))) || 1, 1),
+});
+
+// Applies filter changes to the URL. Empty values are removed, and changing a
+// filter goes back to the first page unless the page is part of the change.
+export const withListChanges = (params: URLSearchParams, changes: Record<string, string>) => {
+  const next = new URLSearchParams(params);
+  Object.entries(changes).forEach(([key, value]) => {
+    if (value) next.set(key, value);
+    else next.delete(key);
+  });
+  if (!("page" in changes)) next.delete("page");
+  return next;
+};
+
+// The API query string. Blank filters are left out; a page adds the paging
+// parameters, which makes the API answer with a page envelope.
+export const productQueryParams = ({ q, category, sort, page, perPage }: ProductFilters & Partial<ProductQuery>) => {
+  const params = new URLSearchParams();
+  if (q?.trim()) params.set("q", q.trim());
+  if (category) params.set("category", category);
+  if (sort) params.set("_sort", sort);
+  if (page !== undefined) {
+    params.set("_page", String(page));
+    if (perPage !== undefined) params.set("_per_page", String(perPage));
+  }
+  return params;
+};
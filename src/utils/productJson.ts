@@ -0,0 +1,24 @@
+import { Product } from "../types/product";
+import { IMPORT_FIELDS } from "./productCsv";
+
+// Same shape as the products array in db.json, so a backup can be restored as is
+export const productsToJSON = (products: Product[]) => JSON.stringify(products, null, 2);
+
+// Accepts a products array or a whole db.json, and lays the products out as
+// records under the CSV export headers so they go through the same import checks
+export const jsonToRecords = (text: string): string[][] => {
+  const data = JSON.parse(text);
+  const products = Array.isArray(data) ? data : data?.products;
+  if (!Array.isArray(products)) {
+    throw new Error("Expected an array of products or a db.json with a products array");
+  }
+  const cell = (value: unknown) =>
+    value === undefined || value === null ? "" : typeof value === "object" ? JSON.stringify(value) : String(value);
+  // Backups from before galleries have a url and no images
+  const fieldValue = (p: Record<string, unknown>, field: string) =>
+    field === "url" ? (p?.url ?? (p?.images as { url?: string }[] | undefined)?.[0]?.url) : p?.[field];
+  return [
+    IMPORT_FIELDS.map((f) => f.label),
+    ...products.map((p: Record<string, unknown>) => IMPORT_FIELDS.map((f) => cell(fieldValue(p, f.field)))),
+  ];
+};
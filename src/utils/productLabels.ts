@@ -0,0 +1,91 @@
+import jsPDF from "jspdf";
+import { Product } from "../types/product";
+import { barcodeBars, isValidBarcode } from "./barcode";
+import { formatPrice } from "./format";
+import { embedFonts, FONT } from "./pdfFonts";
+import { hasVariants, variantLabel } from "./variants";
+
+// A4 sheet of 3 × 8 labels, 70 × 37 mm each, as on common sticker sheets
+const COLUMNS = 3;
+const ROWS = 8;
+const LABEL_WIDTH = 70;
+const LABEL_HEIGHT = 37;
+const PADDING = 3;
+const BAR_HEIGHT = 12;
+const GUARD_EXTRA = 1.5;
+const MAX_MODULE = 0.5; // mm; scanners need bars at least this wide to be reliable
+
+interface Label {
+  name: string;
+  detail?: string; // Variant values
+  price: number;
+  sku?: string;
+  barcode?: string;
+}
+
+// One label per product, or per variant for products sold in variants
+const productLabels = (products: Product[]): Label[] =>
+  products.flatMap((product) =>
+    hasVariants(product)
+      ? product.variants!.map((v) => ({
+          name: product.name,
+          detail: variantLabel(product.attributes, v),
+          price: v.price,
+          sku: v.sku,
+          barcode: v.barcode,
+        }))
+      : [{ name: product.name, price: product.price, sku: product.sku, barcode: product.barcode }]
+  );
+
+const drawBarcode = (doc: jsPDF, code: string, x: number, y: number, maxWidth: number) => {
+  const { bars, width } = barcodeBars(code);
+  const module = Math.min(maxWidth / width, MAX_MODULE);
+  const left = x + (maxWidth - width * module) / 2;
+  bars.forEach((bar) =>
+    doc.rect(left + bar.x * module, y, bar.width * module, bar.guard ? BAR_HEIGHT + GUARD_EXTRA : BAR_HEIGHT, "F")
+  );
+  doc.setFontSize(7);
+  doc.text(code, x + maxWidth / 2, y + BAR_HEIGHT + GUARD_EXTRA + 3, { align: "center" });
+};
+
+// Printable shelf labels with name, price, SKU and barcode. Labels without a
+// barcode show the SKU in its place.
+export const buildProductLabels = async (products: Product[]) => {
+  const doc = new jsPDF({ format: "a4" });
+  await embedFonts(doc);
+  const { width, height } = doc.internal.pageSize;
+  const marginX = (width - COLUMNS * LABEL_WIDTH) / 2;
+  const marginY = (height - ROWS * LABEL_HEIGHT) / 2;
+  const innerWidth = LABEL_WIDTH - PADDING * 2;
+
+  productLabels(products).forEach((label, i) => {
+    const slot = i % (COLUMNS * ROWS);
+    if (i > 0 && slot === 0) doc.addPage();
+    const x = marginX + (slot % COLUMNS) * LABEL_WIDTH + PADDING;
+    const y = marginY + Math.floor(slot / COLUMNS) * LABEL_HEIGHT + PADDING;
+
+    doc.setFont(FONT, "bold");
+    doc.setFontSize(9);
+    const [name] = doc.splitTextToSize(label.name, innerWidth) as string[];
+    doc.text(name, x, y + 3);
+    doc.setFont(FONT, "normal");
+    doc.setFontSize(8);
+    if (label.detail) doc.text(doc.splitTextToSize(label.detail, innerWidth * 0.6)[0], x, y + 7);
+    doc.setFont(FONT, "bold");
+    doc.setFontSize(10);
+    doc.text(formatPrice(label.price), x + innerWidth, y + 7, { align: "right" });
+    doc.setFont(FONT, "normal");
+
+    if (label.barcode && isValidBarcode(label.barcode)) {
+      drawBarcode(doc, label.barcode, x, y + 10, innerWidth);
+      if (label.sku) {
+        doc.setFontSize(6);
+        doc.text(`SKU ${label.sku}`, x, y + LABEL_HEIGHT - PADDING * 2);
+      }
+    } else if (label.sku) {
+      doc.setFontSize(12);
+      doc.text(label.sku, x + innerWidth / 2, y + 19, { align: "center" });
+    }
+  });
+  return doc;
+};
@@ -0,0 +1,70 @@
+import type { CellValue } from "exceljs";
+import { Product } from "../types/product";
+import { primaryImage } from "./images";
+import { IMPORT_FIELDS, attributesCell, imagesCell, variantsCell } from "./productCsv";
+
+export const XLSX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// exceljs is large, so it is only loaded when a spreadsheet is actually used
+const loadWorkbook = async () => new (await import("exceljs")).Workbook();
+
+const COLUMN_WIDTHS: Record<string, number> = { Name: 30, Category: 16, Description: 50, URL: 40, Images: 40, Attributes: 40, Variants: 60 };
+
+// Barcodes are text so leading zeros survive editing in Excel
+const NUMBER_FORMATS: Partial<Record<string, string>> = { price: "0.00", stock: "0", reorderPoint: "0", barcode: "@" };
+
+// Header row matches the CSV export; price and stock are stored as numbers
+export const productsToXLSX = async (products: Product[]) => {
+  const workbook = await loadWorkbook();
+  const sheet = workbook.addWorksheet("Products", { views: [{ state: "frozen", ySplit: 1 }] });
+  sheet.columns = [
+    ...IMPORT_FIELDS.map(({ field, label }) => ({
+      header: label,
+      key: field,
+      width: COLUMN_WIDTHS[label] ?? 14,
+      style: NUMBER_FORMATS[field] ? { numFmt: NUMBER_FORMATS[field] } : {},
+    })),
+    { header: "UpdatedAt", key: "updatedAt", width: 26 },
+  ];
+  sheet.getRow(1).font = { bold: true };
+  products.forEach((p) =>
+    sheet.addRow({
+      ...p,
+      reorderPoint: p.reorderPoint ?? null,
+      url: primaryImage(p)?.url || "",
+      images: imagesCell(p),
+      attributes: attributesCell(p),
+      variants: variantsCell(p),
+      updatedAt: p.updatedAt || "",
+    })
+  );
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: XLSX_MIME_TYPE });
+};
+
+const cellText = (value: CellValue): string => {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value !== "object") return String(value);
+  if ("richText" in value) return value.richText.map((r) => r.text).join("");
+  if ("hyperlink" in value) return value.hyperlink;
+  if ("result" in value) return cellText(value.result as CellValue);
+  return ""; // Error values
+};
+
+// Reads the first worksheet as text records, header row included
+export const readXLSX = async (data: ArrayBuffer): Promise<string[][]> => {
+  const workbook = await loadWorkbook();
+  await workbook.xlsx.load(data);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) throw new Error("The workbook has no sheets");
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: true }, (row) => {
+    const values: string[] = [];
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      values.push(cellText(row.getCell(column).value));
+    }
+    rows.push(values);
+  });
+  return rows;
+};
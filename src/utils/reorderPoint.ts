@@ -0,0 +1,22 @@
+import { Category } from "../types/category";
+import { Product } from "../types/product";
+
+// Used until settings load, and for stores that never set one
+export const FALLBACK_REORDER_POINT = 10;
+
+// Product override, then the category default, then the store-wide default
+export const resolveReorderPoint = (
+  product: Pick<Product, "category" | "reorderPoint">,
+  categories: Category[],
+  defaultReorderPoint: number
+) =>
+  product.reorderPoint ??
+  categories.find((c) => c.name === product.category)?.reorderPoint ??
+  defaultReorderPoint;
+
+// Stock at or below the reorder point needs restocking
+export const isLowStock = (stock: number, reorderPoint: number) => stock <= reorderPoint;
+
+// Empty input means "inherit"; anything else must be a whole number >= 0
+export const parseReorderPoint = (value: string) =>
+  value === "" ? undefined : Math.max(0, Math.floor(Number(value)));
@@ -0,0 +1,25 @@
+import { Role } from "../types/user";
+
+// Claims signed into the session token by the /auth endpoints
+export interface TokenClaims {
+  sub: string;
+  username: string;
+  role: Role;
+  auth_time: number; // Original login, in seconds
+  iat: number;
+  exp: number; // Expiry, in seconds
+}
+
+// Reads the claims without verifying the signature; the server does that
+export const decodeToken = (token: string): TokenClaims | null => {
+  const payload = token.split(".")[1];
+  if (!payload) return null;
+  try {
+    const json = atob(payload.replace(/-/g, "+").replace(/_/g, "/"));
+    return JSON.parse(json) as TokenClaims;
+  } catch {
+    return null;
+  }
+};
+
+export const isTokenExpired = (claims: TokenClaims, now = Date.now()) => claims.exp * 1000 <= now;
@@ -0,0 +1,19 @@
+// Keep in sync with api/_lib/uploads.js
+export const MAX_UPLOAD_BYTES = 3 * 1024 * 1024;
+export const IMAGE_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp"];
+
+// Checked before uploading so obvious mistakes fail fast; the API checks again
+export const validateImageFile = (file: File): string | null => {
+  if (!IMAGE_TYPES.includes(file.type)) return "Images must be JPEG, PNG, GIF or WebP";
+  if (file.size > MAX_UPLOAD_BYTES) return `Images must be ${MAX_UPLOAD_BYTES / 1024 / 1024} MB or smaller`;
+  return null;
+};
+
+// File contents as base64, without the data: URL prefix
+export const readAsBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] ?? "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
@@ -0,0 +1,18 @@
+// Same rules as api/_lib/validation.js, so the form can fail fast
+
+export const validateUsername = (username: string): string | null => {
+  if (!/^[a-zA-Z0-9_.-]{3,20}$/.test(username)) {
+    return "Username must be 3-20 characters: letters, numbers, '.', '_' or '-'";
+  }
+  return null;
+};
+
+export const validatePassword = (password: string): string | null => {
+  if (password.length < 8) {
+    return "Password must be at least 8 characters long";
+  }
+  if (!/[a-zA-Z]/.test(password) || !/[0-9]/.test(password)) {
+    return "Password must contain at least one letter and one number";
+  }
+  return null;
+};
@@ -0,0 +1,95 @@
+import { Product, ProductVariant, VariantAttribute } from "../types/product";
+import { barcodeError } from "./barcode";
+
+// Keep in sync with api/_lib/variants.js
+
+export const hasVariants = (product: Pick<Product, "variants">) => (product.variants?.length ?? 0) > 0;
+
+// "M / Red", in attribute order
+export const variantLabel = (attributes: VariantAttribute[] | undefined, variant: Pick<ProductVariant, "options">) =>
+  (attributes ?? []).map((a) => variant.options[a.name]).join(" / ");
+
+export const variantName = (product: Pick<Product, "name" | "attributes">, variant: ProductVariant) =>
+  `${product.name} (${variantLabel(product.attributes, variant)})`;
+
+export const findVariant = (product: Pick<Product, "variants">, variantId: string) =>
+  product.variants?.find((v) => v.id === variantId);
+
+export const sameOptions = (a: Record<string, string>, b: Record<string, string>) =>
+  Object.keys(a).length === Object.keys(b).length && Object.keys(a).every((key) => a[key] === b[key]);
+
+// Every combination of values, in attribute order. Attributes without values are left out.
+export const combinations = (attributes: VariantAttribute[]): Record<string, string>[] =>
+  attributes
+    .filter((a) => a.values.length > 0)
+    .reduce<Record<string, string>[] | null>(
+      (combos, { name, values }) =>
+        (combos ?? [{}]).flatMap((options) => values.map((value) => ({ ...options, [name]: value }))),
+      null
+    ) ?? [];
+
+// Suggested SKU, e.g. "TSHIRT-M-RED"
+export const suggestSku = (productName: string, options: Record<string, string>) =>
+  [productName, ...Object.values(options)]
+    .map((part) => part.toUpperCase().replace(/[^A-Z0-9]+/g, ""))
+    .filter(Boolean)
+    .join("-");
+
+// One variant per combination of the attributes. Existing variants are kept
+// when their options still match; new combinations start from `makeVariant`.
+export const syncVariants = (
+  attributes: VariantAttribute[],
+  variants: ProductVariant[],
+  makeVariant: (options: Record<string, string>) => ProductVariant
+) =>
+  combinations(attributes).map(
+    (options) => variants.find((v) => sameOptions(v.options, options)) ?? makeVariant(options)
+  );
+
+// Mirrors the API: stock is the total and price the lowest variant price.
+// Attributes are only kept while there are variants.
+export const applyVariants = <T extends Partial<Product>>(product: T): T => {
+  if (!hasVariants(product)) {
+    const rest = { ...product };
+    delete rest.attributes;
+    delete rest.variants;
+    return rest;
+  }
+  const variants = product.variants!;
+  return {
+    ...product,
+    attributes: product.attributes?.filter((a) => a.values.length > 0),
+    stock: variants.reduce((acc, v) => acc + v.stock, 0),
+    price: Math.min(...variants.map((v) => v.price)),
+  };
+};
+
+export const priceRange = (product: Pick<Product, "price" | "variants">) => {
+  if (!hasVariants(product)) return { min: product.price, max: product.price };
+  const prices = product.variants!.map((v) => v.price);
+  return { min: Math.min(...prices), max: Math.max(...prices) };
+};
+
+// The first problem with the variants, or null. Checked again by the API.
+export const validateVariants = (attributes: VariantAttribute[], variants: ProductVariant[]): string | null => {
+  const names = new Set<string>();
+  for (const { name, values } of attributes) {
+    if (!name.trim()) return "Every attribute needs a name";
+    if (names.has(name.toLowerCase())) return `Attribute "${name}" is defined twice`;
+    names.add(name.toLowerCase());
+    if (values.length === 0) return `Attribute "${name}" needs at least one value`;
+  }
+  const skus = new Set<string>();
+  for (const variant of variants) {
+    if (!variant.sku.trim()) return "Every variant needs a SKU";
+    if (skus.has(variant.sku.toLowerCase())) return `SKU "${variant.sku}" is used by more than one variant`;
+    skus.add(variant.sku.toLowerCase());
+    if (!(variant.price > 0)) return `Price for ${variant.sku} must be a number above 0`;
+    if (!Number.isInteger(variant.stock) || variant.stock < 0) {
+      return `Stock for ${variant.sku} must be a whole number of 0 or more`;
+    }
+    const invalidBarcode = barcodeError(variant.barcode?.trim() ?? "");
+    if (invalidBarcode) return invalidBarcode;
+  }
+  return null;
+};